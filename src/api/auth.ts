@@ -1,15 +1,22 @@
 import https from "https";
+import tls from "tls";
 import fs from "fs";
 import path from "path";
 import { environment } from "@raycast/api";
-import { AuthResponse, BridgeDiscovery } from "./types";
+import { AuthResponse, BridgeDiscovery, BridgePublicConfig, BridgeProbeResult } from "./types";
+import { discoverBridgesMdns } from "./mdns";
 
 // Load Hue Bridge root CA certificate for SSL verification
 const HUE_ROOT_CA = fs.readFileSync(path.join(environment.assetsPath, "root_ca_cert.pem"));
 
 const DISCOVERY_URL = "https://discovery.meethue.com";
 
-export async function discoverBridges(): Promise<BridgeDiscovery[]> {
+const PROBE_TIMEOUT_MS = 5000;
+
+// Socket errors meaning nothing answered at the address
+const NETWORK_ERROR_CODES = ["ECONNREFUSED", "EHOSTUNREACH", "ENETUNREACH", "ETIMEDOUT", "EHOSTDOWN", "ENOTFOUND"];
+
+async function discoverBridgesCloud(): Promise<BridgeDiscovery[]> {
   const response = await fetch(DISCOVERY_URL);
 
   if (!response.ok) {
@@ -19,6 +26,32 @@ export async function discoverBridges(): Promise<BridgeDiscovery[]> {
   return response.json() as Promise<BridgeDiscovery[]>;
 }
 
+/**
+ * Discover bridges both on the local network (mDNS) and through the cloud discovery endpoint.
+ * Either source may fail (e.g. offline or firewalled networks); results are merged and
+ * de-duplicated by bridge id, preferring the locally discovered address.
+ */
+export async function discoverBridges(): Promise<BridgeDiscovery[]> {
+  const [local, cloud] = await Promise.allSettled([discoverBridgesMdns(), discoverBridgesCloud()]);
+
+  if (local.status === "rejected" && cloud.status === "rejected") {
+    throw cloud.reason;
+  }
+
+  const bridges: BridgeDiscovery[] = [];
+  for (const bridge of [
+    ...(local.status === "fulfilled" ? local.value : []),
+    ...(cloud.status === "fulfilled" ? cloud.value : []),
+  ]) {
+    const id = bridge.id.toLowerCase();
+    if (!bridges.some((b) => b.id === id || b.internalipaddress === bridge.internalipaddress)) {
+      bridges.push({ ...bridge, id });
+    }
+  }
+
+  return bridges;
+}
+
 export async function authenticate(
   bridgeIP: string,
   appName: string = "openhue-raycast",
@@ -80,6 +113,129 @@ export async function authenticate(
   });
 }
 
+/**
+ * Open a TLS connection to the bridge and read its certificate.
+ * The chain is verified against the Hue root CA but the connection is not rejected when it fails,
+ * so the caller can tell a certificate mismatch apart from an unreachable host.
+ */
+function readBridgeCertificate(
+  bridgeIP: string,
+): Promise<{ authorized: boolean; authorizationError?: string; commonName?: string }> {
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({
+      host: bridgeIP,
+      port: 443,
+      ca: HUE_ROOT_CA,
+      rejectUnauthorized: false,
+      checkServerIdentity: () => undefined,
+    });
+
+    socket.setTimeout(PROBE_TIMEOUT_MS, () => {
+      socket.destroy();
+      reject(Object.assign(new Error("Connection timeout"), { code: "ETIMEDOUT" }));
+    });
+
+    socket.on("secureConnect", () => {
+      const certificate = socket.getPeerCertificate();
+      resolve({
+        authorized: socket.authorized,
+        authorizationError: socket.authorizationError?.toString(),
+        commonName: typeof certificate.subject?.CN === "string" ? certificate.subject.CN : undefined,
+      });
+      socket.end();
+    });
+
+    socket.on("error", reject);
+  });
+}
+
+// Read the configuration every bridge exposes without an application key
+function getPublicBridgeConfig(bridgeIP: string): Promise<BridgePublicConfig> {
+  return new Promise((resolve, reject) => {
+    const options: https.RequestOptions = {
+      hostname: bridgeIP,
+      port: 443,
+      path: "/api/0/config",
+      method: "GET",
+      // The certificate is checked separately by readBridgeCertificate()
+      rejectUnauthorized: false,
+    };
+
+    const req = https.request(options, (res) => {
+      let data = "";
+
+      res.on("data", (chunk) => {
+        data += chunk;
+      });
+
+      res.on("end", () => {
+        try {
+          resolve(JSON.parse(data) as BridgePublicConfig);
+        } catch {
+          reject(new Error(`Failed to parse response: ${data.substring(0, 200)}`));
+        }
+      });
+    });
+
+    req.on("error", (e) => {
+      reject(new Error(`Connection failed: ${e.message}`));
+    });
+
+    req.setTimeout(PROBE_TIMEOUT_MS, () => {
+      req.destroy();
+      reject(new Error("Connection timeout"));
+    });
+
+    req.end();
+  });
+}
+
+/**
+ * Check that an IP address belongs to a Hue bridge before authenticating with it:
+ * it must answer over HTTPS, report a bridge id, and present a certificate that chains
+ * to the Hue root CA and is issued to that bridge id.
+ */
+export async function probeBridge(bridgeIP: string): Promise<BridgeProbeResult> {
+  let certificate: Awaited<ReturnType<typeof readBridgeCertificate>>;
+  try {
+    certificate = await readBridgeCertificate(bridgeIP);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    const message = error instanceof Error ? error.message : "Connection failed";
+
+    if (code && NETWORK_ERROR_CODES.includes(code)) {
+      return { status: "unreachable", message: `Nothing answered at ${bridgeIP} (${message}).` };
+    }
+    return { status: "not-hue-bridge", message: `${bridgeIP} does not accept secure connections (${message}).` };
+  }
+
+  const config = await getPublicBridgeConfig(bridgeIP).catch(() => null);
+  if (!config?.bridgeid) {
+    return {
+      status: "not-hue-bridge",
+      message: `${bridgeIP} answers over HTTPS but does not identify itself as a Hue bridge.`,
+    };
+  }
+
+  const bridgeId = config.bridgeid.toLowerCase();
+
+  if (!certificate.authorized) {
+    return {
+      status: "tls-mismatch",
+      message: `The certificate of bridge ${bridgeId} is not signed by the Hue root CA (${certificate.authorizationError ?? "unknown error"}).`,
+    };
+  }
+
+  if (certificate.commonName?.toLowerCase() !== bridgeId) {
+    return {
+      status: "tls-mismatch",
+      message: `The certificate is issued to ${certificate.commonName ?? "an unknown bridge"}, but the bridge at ${bridgeIP} reports id ${bridgeId}.`,
+    };
+  }
+
+  return { status: "ok", bridgeId };
+}
+
 export function isLinkButtonError(response: AuthResponse): boolean {
   return response.error?.type === 101;
 }
@@ -0,0 +1,52 @@
+import { BridgeApi } from "./generated/src/apis/BridgeApi";
+import { BridgeHomeApi } from "./generated/src/apis/BridgeHomeApi";
+import { ResourceApi } from "./generated/src/apis/ResourceApi";
+import { BridgeGet, BridgeHomeGet, ResourceGet } from "./generated/src/models";
+import { getApi } from "./configuration";
+import { handleApiError } from "./errors";
+
+// Get API instances configured for the active bridge
+async function getBridgeApi(): Promise<BridgeApi> {
+  return getApi(BridgeApi);
+}
+
+async function getBridgeHomeApi(): Promise<BridgeHomeApi> {
+  return getApi(BridgeHomeApi);
+}
+
+async function getResourceApi(): Promise<ResourceApi> {
+  return getApi(ResourceApi);
+}
+
+// Each application key only has access to a single bridge
+export async function getBridge(): Promise<BridgeGet | null> {
+  const api = await getBridgeApi();
+  const response = await handleApiError(() => api.getBridges());
+  return response.data?.[0] ?? null;
+}
+
+export async function getBridgeHomes(): Promise<BridgeHomeGet[]> {
+  const api = await getBridgeHomeApi();
+  const response = await handleApiError(() => api.getBridgeHomes());
+  return response.data || [];
+}
+
+export async function getResources(): Promise<ResourceGet[]> {
+  const api = await getResourceApi();
+  const response = await handleApiError(() => api.getResources());
+  return response.data || [];
+}
+
+// Helper to count resources per type, most common first
+export function countResourcesByType(resources: ResourceGet[]): Array<{ type: string; count: number }> {
+  const counts = new Map<string, number>();
+
+  for (const resource of resources) {
+    const type = resource.type ?? "unknown";
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .map(([type, count]) => ({ type, count }))
+    .sort((a, b) => b.count - a.count || a.type.localeCompare(b.type));
+}
@@ -3,8 +3,16 @@ import https from "https";
 import fs from "fs";
 import os from "os";
 import path from "path";
-import { parse as parseYaml } from "yaml";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
 import { ApiResponse } from "./types";
+import { discoverBridges } from "./auth";
+import { scheduleRequest, getQueueDepths } from "./scheduler";
+import {
+  getActiveBridgeProfileName,
+  getBridgeProfile,
+  getBridgeProfiles,
+  updateBridgeProfileAddress,
+} from "./profiles";
 
 // Preferences are auto-generated by Raycast from package.json
 interface Preferences {
@@ -18,9 +26,14 @@ const OPENHUE_CONFIG_PATH = path.join(os.homedir(), ".openhue", "config.yaml");
 // Load Hue Bridge root CA certificate for SSL verification
 const HUE_ROOT_CA = fs.readFileSync(path.join(environment.assetsPath, "root_ca_cert.pem"));
 
-// Simple global rate limiter to avoid hitting Hue Bridge HTTP 429
-const MIN_REQUEST_INTERVAL_MS = 200; // ~5 requests/second max
-let nextAvailableTime = Date.now();
+// New addresses of bridges whose IP changed, for credentials that can't be updated on disk (preferences)
+const resolvedAddresses = new Map<string, string>();
+
+// Connection errors raised before the request reached the bridge, so it can be sent again safely
+const CONNECT_ERROR_CODES = ["ECONNREFUSED", "EHOSTUNREACH", "ENETUNREACH"];
+
+// Rediscoveries in progress, by stale IP, so concurrent failures share a single discovery
+const pendingResolutions = new Map<string, Promise<string | null>>();
 
 export class HueApiError extends Error {
   constructor(
@@ -33,15 +46,55 @@ export class HueApiError extends Error {
   }
 }
 
+/**
+ * The bridge answering at the configured IP is not the bridge that was set up,
+ * e.g. because DHCP handed its address to another bridge.
+ */
+export class BridgeMismatchError extends HueApiError {
+  constructor(
+    public bridgeIP: string,
+    public expectedBridgeId: string,
+    public actualBridgeId: string | undefined,
+  ) {
+    super(
+      `The bridge at ${bridgeIP} is ${actualBridgeId ?? "unknown"}, not the configured bridge ${expectedBridgeId}. ` +
+        "Its IP address may have changed; run Setup Hue Bridge again.",
+    );
+    this.name = "BridgeMismatchError";
+  }
+}
+
+/**
+ * The bridge could not be reached at all (connection refused, unreachable host, timeout).
+ */
+export class BridgeConnectionError extends HueApiError {
+  constructor(
+    message: string,
+    // System error code of the failed connection, if any
+    public code?: string,
+  ) {
+    super(message);
+    this.name = "BridgeConnectionError";
+  }
+}
+
+export interface BridgeCredentials {
+  bridgeIP: string;
+  applicationKey: string;
+  // Bridge id recorded at setup, used to pin the bridge certificate
+  bridgeId?: string;
+}
+
 interface OpenHueConfig {
   bridge?: string;
   key?: string;
+  bridge_id?: string;
 }
 
 /**
  * Load credentials from the openhue config file (~/.openhue/config.yaml)
  */
-function loadOpenHueConfig(): { bridgeIP: string; applicationKey: string } | null {
+function loadOpenHueConfig(): BridgeCredentials | null {
   try {
     if (!fs.existsSync(OPENHUE_CONFIG_PATH)) {
       return null;
@@ -54,6 +107,7 @@ function loadOpenHueConfig(): { bridgeIP: string; applicationKey: string } | nul
       return {
         bridgeIP: config.bridge,
         applicationKey: config.key,
+        bridgeId: config.bridge_id,
       };
     }
 
@@ -65,17 +119,38 @@ function loadOpenHueConfig(): { bridgeIP: string; applicationKey: string } | nul
 
 /**
  * Get credentials from (in order of priority):
- * 1. Raycast extension preferences
- * 2. OpenHue config file (~/.openhue/config.yaml)
+ * 1. The active bridge profile
+ * 2. Raycast extension preferences
+ * 3. OpenHue config file (~/.openhue/config.yaml)
  */
-export function getCredentials(): { bridgeIP: string; applicationKey: string } | null {
+export function getCredentials(): BridgeCredentials | null {
+  const activeProfileName = getActiveBridgeProfileName();
+  const activeProfile = activeProfileName ? getBridgeProfile(activeProfileName) : undefined;
+
+  if (activeProfile) {
+    return {
+      bridgeIP: activeProfile.bridgeIP,
+      applicationKey: activeProfile.applicationKey,
+      bridgeId: activeProfile.bridgeId,
+    };
+  }
+
+  return getDefaultCredentials();
+}
+
+/**
+ * Get the credentials used when no bridge profile is active.
+ */
+export function getDefaultCredentials(): BridgeCredentials | null {
   // First, try Raycast preferences
   const preferences = getPreferenceValues<Preferences>();
 
   if (preferences.bridgeIP && preferences.applicationKey) {
+    const bridgeIP = resolvedAddresses.get(preferences.bridgeIP) ?? preferences.bridgeIP;
     return {
-      bridgeIP: preferences.bridgeIP,
+      bridgeIP,
       applicationKey: preferences.applicationKey,
+      bridgeId: findBridgeId([preferences.bridgeIP, bridgeIP], preferences.applicationKey),
     };
   }
 
@@ -83,13 +158,131 @@ export function getCredentials(): { bridgeIP: string; applicationKey: string } |
   return loadOpenHueConfig();
 }
 
+/**
+ * Preferences don't record a bridge id; borrow it from a bridge profile or the openhue config
+ * file holding the same credentials.
+ */
+function findBridgeId(bridgeIPs: string[], applicationKey: string): string | undefined {
+  const profile = getBridgeProfiles().find(
+    (p) => p.bridgeId && p.applicationKey === applicationKey && bridgeIPs.includes(p.bridgeIP),
+  );
+  if (profile) {
+    return profile.bridgeId;
+  }
+
+  const config = loadOpenHueConfig();
+  if (config?.bridgeId && config.applicationKey === applicationKey && bridgeIPs.includes(config.bridgeIP)) {
+    return config.bridgeId;
+  }
+
+  return undefined;
+}
+
+export interface BridgeConnection extends BridgeCredentials {
+  name: string;
+}
+
+/**
+ * Get every configured bridge: the default credentials followed by all bridge profiles.
+ * A bridge configured in several places is only listed once.
+ */
+export function getConfiguredBridges(): BridgeConnection[] {
+  const bridges: BridgeConnection[] = [];
+  const defaultCredentials = getDefaultCredentials();
+
+  if (defaultCredentials) {
+    bridges.push({ name: "Default", ...defaultCredentials });
+  }
+
+  for (const profile of getBridgeProfiles()) {
+    if (!bridges.some((bridge) => bridge.bridgeIP === profile.bridgeIP)) {
+      bridges.push({
+        name: profile.name,
+        bridgeIP: profile.bridgeIP,
+        applicationKey: profile.applicationKey,
+        bridgeId: profile.bridgeId,
+      });
+    }
+  }
+
+  return bridges;
+}
+
 export function getBridgeBaseUrl(bridgeIP: string): string {
   return `https://${bridgeIP}`;
 }
 
+/**
+ * Point the openhue config file at a new IP if it belongs to the given bridge.
+ */
+function updateOpenHueConfigAddress(bridgeId: string, bridgeIP: string): boolean {
+  try {
+    if (!fs.existsSync(OPENHUE_CONFIG_PATH)) {
+      return false;
+    }
+
+    const config = parseYaml(fs.readFileSync(OPENHUE_CONFIG_PATH, "utf-8")) as OpenHueConfig;
+    if (config?.bridge_id?.toLowerCase() !== bridgeId.toLowerCase()) {
+      return false;
+    }
+
+    fs.writeFileSync(OPENHUE_CONFIG_PATH, stringifyYaml({ ...config, bridge: bridgeIP }), "utf-8");
+    return true;
+  } catch (error) {
+    console.error("[hueRequest] Failed to update ~/.openhue/config.yaml:", error);
+    return false;
+  }
+}
+
+/**
+ * Find the new IP of a bridge that stopped answering at its saved IP, by rediscovering bridges
+ * and matching the bridge id recorded at setup. The new IP is saved to the bridge profiles and
+ * ~/.openhue/config.yaml. Raycast preferences can't be written by the extension, so a stale IP
+ * there is only replaced for the current session.
+ */
+function resolveBridgeAddress(staleIP: string, bridgeId: string): Promise<string | null> {
+  let pending = pendingResolutions.get(staleIP);
+
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const bridges = await discoverBridges();
+        const bridge = bridges.find((b) => b.id.toLowerCase() === bridgeId.toLowerCase());
+
+        if (!bridge || bridge.internalipaddress === staleIP) {
+          return null;
+        }
+
+        const newIP = bridge.internalipaddress;
+        console.log(`[hueRequest] bridge ${bridgeId} moved from ${staleIP} to ${newIP}`);
+
+        updateBridgeProfileAddress(bridgeId, newIP);
+        updateOpenHueConfigAddress(bridgeId, newIP);
+        resolvedAddresses.set(staleIP, newIP);
+
+        return newIP;
+      } catch (error) {
+        console.error(`[hueRequest] Failed to rediscover bridge ${bridgeId}:`, error);
+        return null;
+      } finally {
+        pendingResolutions.delete(staleIP);
+      }
+    })();
+    pendingResolutions.set(staleIP, pending);
+  }
+
+  return pending;
+}
+
 /**
  * Make an HTTPS request to the Hue Bridge.
  * Uses Node.js https module directly to handle self-signed certificates.
+ *
+ * The certificate is pinned to the bridge id of the credentials making the request; credentials
+ * from before bridge ids were recorded have none, and are not pinned.
+ * When the bridge can't be reached or another bridge answers at its IP, the bridge is
+ * rediscovered by its recorded id and the request is retried once at its new IP. Updates are only
+ * retried when they can't have reached the bridge, so they are never applied twice.
  */
 export async function hueRequest<T>(
   endpoint: string,
@@ -98,6 +291,7 @@ export async function hueRequest<T>(
     body?: unknown;
     bridgeIP?: string;
     applicationKey?: string;
+    bridgeId?: string;
   } = {},
 ): Promise<T> {
   const { method = "GET", body, bridgeIP, applicationKey } = options;
@@ -105,6 +299,7 @@ export async function hueRequest<T>(
   // Use provided credentials or get from preferences
   let ip = bridgeIP;
   let key = applicationKey;
+  let pinnedBridgeId = options.bridgeId;
 
   if (!ip || !key) {
     const credentials = getCredentials();
@@ -113,10 +308,101 @@ export async function hueRequest<T>(
     }
     ip = credentials.bridgeIP;
     key = credentials.applicationKey;
+    pinnedBridgeId = credentials.bridgeId;
+  }
+
+  ip = resolvedAddresses.get(ip) ?? ip;
+
+  try {
+    return await sendRequest<T>(endpoint, method, body, ip, key, pinnedBridgeId);
+  } catch (error) {
+    const isStaleAddress = error instanceof BridgeConnectionError || error instanceof BridgeMismatchError;
+    if (!isStaleAddress) {
+      throw error;
+    }
+
+    if (!pinnedBridgeId) {
+      throw new BridgeConnectionError(
+        `${error.message}. The bridge id of ${ip} isn't known, so its new address can't be looked up; ` +
+          "run Setup Hue Bridge again.",
+        error instanceof BridgeConnectionError ? error.code : undefined,
+      );
+    }
+
+    if (!canResend(method, error)) {
+      throw error;
+    }
+
+    const newIP = await resolveBridgeAddress(ip, pinnedBridgeId);
+    if (!newIP) {
+      throw error;
+    }
+
+    return sendRequest<T>(endpoint, method, body, newIP, key, pinnedBridgeId);
+  }
+}
+
+// Whether a request failing with a stale address can be sent again without being applied twice
+function canResend(method: string, error: BridgeConnectionError | BridgeMismatchError): boolean {
+  if (method === "GET" || error instanceof BridgeMismatchError) {
+    // A mismatching certificate fails the handshake before the request is sent
+    return true;
   }
+  return error.code !== undefined && CONNECT_ERROR_CODES.includes(error.code);
+}
+
+/**
+ * TLS options for connections to a bridge.
+ */
+export function getBridgeTlsOptions(
+  bridgeIP: string,
+  pinnedBridgeId: string | undefined,
+): Pick<https.RequestOptions, "ca" | "rejectUnauthorized" | "checkServerIdentity"> {
+  return {
+    ca: HUE_ROOT_CA, // Use Philips Hue root CA for certificate verification
+    rejectUnauthorized: true,
+    // Hue bridge certs are issued to bridge ID, not IP - verify the common name
+    // against the bridge ID recorded at setup instead of the hostname
+    checkServerIdentity: (_hostname, certificate) => {
+      const commonName = typeof certificate.subject?.CN === "string" ? certificate.subject.CN : undefined;
+      if (pinnedBridgeId && commonName?.toLowerCase() !== pinnedBridgeId.toLowerCase()) {
+        return new BridgeMismatchError(bridgeIP, pinnedBridgeId, commonName?.toLowerCase());
+      }
+      return undefined;
+    },
+  };
+}
+
+// Queue a request through the scheduler so we don't overwhelm the bridge
+function sendRequest<T>(
+  endpoint: string,
+  method: "GET" | "PUT" | "POST" | "DELETE",
+  body: unknown,
+  ip: string,
+  key: string,
+  pinnedBridgeId: string | undefined,
+): Promise<T> {
+  return scheduleRequest<T>({ bridgeIP: ip, method, endpoint, body }, (scheduledBody) =>
+    executeRequest<T>(endpoint, method, scheduledBody, ip, key, pinnedBridgeId),
+  );
+}
 
+function executeRequest<T>(
+  endpoint: string,
+  method: "GET" | "PUT" | "POST" | "DELETE",
+  body: unknown,
+  ip: string,
+  key: string,
+  pinnedBridgeId: string | undefined,
+): Promise<T> {
   // Debug logging
-  console.log(`[hueRequest] endpoint=${endpoint}, ip=${ip}, key=${key ? key.substring(0, 8) + "..." : "NONE"}`);
+  const queueDepths = Object.entries(getQueueDepths())
+    .filter(([, depth]) => depth > 0)
+    .map(([queue, depth]) => `${queue}=${depth}`)
+    .join(", ");
+  console.log(
+    `[hueRequest] endpoint=${endpoint}, ip=${ip}, key=${key ? key.substring(0, 8) + "..." : "NONE"}, queued=[${queueDepths}]`,
+  );
 
   return new Promise((resolve, reject) => {
     const postData = body ? JSON.stringify(body) : undefined;
@@ -142,73 +428,56 @@ export async function hueRequest<T>(
       path: endpoint,
       method: method,
       headers: headers,
-      ca: HUE_ROOT_CA, // Use Philips Hue root CA for certificate verification
-      rejectUnauthorized: true,
-      // Hue bridge certs are issued to bridge ID, not IP - skip hostname verification
-      // but still verify the certificate chain against the Hue root CA
-      checkServerIdentity: () => undefined,
+      ...getBridgeTlsOptions(ip, pinnedBridgeId),
     };
 
-    const executeRequest = () => {
-      const req = https.request(reqOptions, (res) => {
-        let data = "";
-
-        res.on("data", (chunk) => {
-          data += chunk;
-        });
-
-        res.on("end", () => {
-          try {
-            // Check HTTP status first
-            if (res.statusCode && res.statusCode >= 400) {
-              reject(new HueApiError(`HTTP ${res.statusCode}: ${data.substring(0, 200)}`, res.statusCode));
-              return;
-            }
-
-            const parsed = JSON.parse(data);
-
-            // Check for API errors in the response
-            if (parsed.errors && parsed.errors.length > 0) {
-              reject(new HueApiError(parsed.errors[0].description, res.statusCode, parsed.errors));
-              return;
-            }
-
-            resolve(parsed as T);
-          } catch {
-            // Include status code and more of the response in error
-            const preview = data.substring(0, 300).replace(/\n/g, " ");
-            reject(new HueApiError(`Failed to parse (HTTP ${res.statusCode}): ${preview}`, res.statusCode));
-          }
-        });
-      });
+    const req = https.request(reqOptions, (res) => {
+      let data = "";
 
-      req.on("error", (e) => {
-        console.error(`[hueRequest] error:`, e);
-        reject(new HueApiError(`Connection failed: ${e.message}`));
+      res.on("data", (chunk) => {
+        data += chunk;
       });
 
-      req.setTimeout(15000, () => {
-        req.destroy();
-        reject(new HueApiError("Request timeout"));
+      res.on("end", () => {
+        try {
+          // Check HTTP status first
+          if (res.statusCode && res.statusCode >= 400) {
+            reject(new HueApiError(`HTTP ${res.statusCode}: ${data.substring(0, 200)}`, res.statusCode));
+            return;
+          }
+
+          const parsed = JSON.parse(data);
+
+          // Check for API errors in the response
+          if (parsed.errors && parsed.errors.length > 0) {
+            reject(new HueApiError(parsed.errors[0].description, res.statusCode, parsed.errors));
+            return;
+          }
+
+          resolve(parsed as T);
+        } catch {
+          // Include status code and more of the response in error
+          const preview = data.substring(0, 300).replace(/\n/g, " ");
+          reject(new HueApiError(`Failed to parse (HTTP ${res.statusCode}): ${preview}`, res.statusCode));
+        }
       });
+    });
 
-      if (postData) {
-        req.write(postData);
-      }
-      req.end();
-    };
+    req.on("error", (e) => {
+      console.error(`[hueRequest] error:`, e);
+      const code = (e as NodeJS.ErrnoException).code;
+      reject(e instanceof HueApiError ? e : new BridgeConnectionError(`Connection failed: ${e.message}`, code));
+    });
 
-    // Apply simple global rate limiting so we don't overwhelm the bridge
-    const now = Date.now();
-    const startTime = Math.max(now, nextAvailableTime);
-    const delay = startTime - now;
-    nextAvailableTime = startTime + MIN_REQUEST_INTERVAL_MS;
+    req.setTimeout(15000, () => {
+      req.destroy();
+      reject(new BridgeConnectionError("Request timeout"));
+    });
 
-    if (delay <= 0) {
-      executeRequest();
-    } else {
-      setTimeout(executeRequest, delay);
+    if (postData) {
+      req.write(postData);
     }
+    req.end();
   });
 }
 
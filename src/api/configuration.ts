@@ -0,0 +1,66 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Configuration } from "./generated/src/runtime";
+import { createFetchAdapter } from "./fetch-adapter";
+import { getCredentials, BridgeCredentials } from "./client";
+
+// Bridge that API calls made inside withBridge() are routed to
+const bridgeContext = new AsyncLocalStorage<BridgeCredentials>();
+
+// Configurations per bridge credentials
+const configurations = new Map<string, Configuration>();
+
+// API instances are shared per configuration so switching bridges never reuses a stale client
+const apiInstances = new WeakMap<Configuration, Map<unknown, unknown>>();
+
+/**
+ * Run API calls against a specific bridge instead of the active one.
+ * Every wrapper called from within the callback uses the given credentials.
+ */
+export function withBridge<T>(bridge: BridgeCredentials | undefined, callback: () => Promise<T>): Promise<T> {
+  return bridge ? bridgeContext.run(bridge, callback) : callback();
+}
+
+/**
+ * Get the generated client configuration for the current bridge:
+ * the one selected with withBridge(), or else the active bridge.
+ */
+export async function getConfiguration(): Promise<Configuration> {
+  const credentials = bridgeContext.getStore() ?? getCredentials();
+
+  if (!credentials) {
+    throw new Error("Bridge not configured. Please run Setup Hue Bridge first.");
+  }
+
+  const key = `${credentials.bridgeIP}|${credentials.applicationKey}|${credentials.bridgeId ?? ""}`;
+  let configuration = configurations.get(key);
+  if (!configuration) {
+    configuration = new Configuration({
+      basePath: `https://${credentials.bridgeIP}`,
+      // Each configuration pins the certificate to the bridge id of its own credentials
+      fetchApi: await createFetchAdapter(credentials.bridgeId),
+      apiKey: credentials.applicationKey,
+    });
+    configurations.set(key, configuration);
+  }
+
+  return configuration;
+}
+
+/**
+ * Get an instance of a generated API class configured for the active bridge.
+ */
+export async function getApi<T>(ApiClass: new (configuration: Configuration) => T): Promise<T> {
+  const configuration = await getConfiguration();
+
+  let instances = apiInstances.get(configuration);
+  if (!instances) {
+    instances = new Map();
+    apiInstances.set(configuration, instances);
+  }
+
+  if (!instances.has(ApiClass)) {
+    instances.set(ApiClass, new ApiClass(configuration));
+  }
+
+  return instances.get(ApiClass) as T;
+}
@@ -0,0 +1,59 @@
+import { DeviceApi } from "./generated/src/apis/DeviceApi";
+import { DevicePowerApi } from "./generated/src/apis/DevicePowerApi";
+import { DeviceGet, DevicePut, DevicePowerGet, ResourceIdentifier } from "./generated/src/models";
+import { getApi } from "./configuration";
+import { handleApiError } from "./errors";
+
+// Get API instances configured for the active bridge
+async function getDeviceApi(): Promise<DeviceApi> {
+  return getApi(DeviceApi);
+}
+
+async function getDevicePowerApi(): Promise<DevicePowerApi> {
+  return getApi(DevicePowerApi);
+}
+
+export async function getDevices(): Promise<DeviceGet[]> {
+  const api = await getDeviceApi();
+  const response = await handleApiError(() => api.getDevices());
+  return response.data || [];
+}
+
+export async function getDevice(deviceId: string): Promise<DeviceGet | null> {
+  const api = await getDeviceApi();
+  const response = await handleApiError(() => api.getDevice(deviceId));
+  return response.data?.[0] ?? null;
+}
+
+export async function updateDevice(deviceId: string, data: DevicePut): Promise<ResourceIdentifier[]> {
+  const api = await getDeviceApi();
+  const response = await handleApiError(() => api.updateDevice(deviceId, data));
+  return response.data || [];
+}
+
+export async function deleteDevice(deviceId: string): Promise<ResourceIdentifier[]> {
+  const api = await getDeviceApi();
+  const response = await handleApiError(() => api.deleteDevice(deviceId));
+  return response.data || [];
+}
+
+// Makes the device blink or beep so it can be located
+export async function identifyDevice(deviceId: string): Promise<ResourceIdentifier[]> {
+  return updateDevice(deviceId, { identify: { action: "identify" } });
+}
+
+export async function renameDevice(device: DeviceGet, name: string): Promise<ResourceIdentifier[]> {
+  // Keep the current archetype when only the name changes
+  return updateDevice(device.id!, { metadata: { ...device.metadata, name } });
+}
+
+export async function getDevicePowers(): Promise<DevicePowerGet[]> {
+  const api = await getDevicePowerApi();
+  const response = await handleApiError(() => api.getDevicePowers());
+  return response.data || [];
+}
+
+// The bridge itself is exposed as a device but can never be assigned to a room
+export function isBridgeDevice(device: DeviceGet): boolean {
+  return device.product_data?.product_archetype === "bridge_v2";
+}
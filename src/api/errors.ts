@@ -0,0 +1,35 @@
+import { ResponseError } from "./generated/src/runtime";
+
+// First error description of a Hue error response, if it has one
+async function getErrorDescription(response: Response): Promise<string | undefined> {
+  try {
+    const json: unknown = await response.json();
+    const errors = (json as { errors?: unknown } | null)?.errors;
+    const description = Array.isArray(errors)
+      ? (errors[0] as { description?: unknown } | undefined)?.description
+      : undefined;
+    return typeof description === "string" ? description : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Run a generated API call, turning error responses into errors carrying the bridge's description.
+ */
+export async function handleApiError<T>(apiCall: () => Promise<T>): Promise<T> {
+  try {
+    return await apiCall();
+  } catch (error) {
+    if (error instanceof ResponseError) {
+      const { status, statusText } = error.response;
+      const description = (await getErrorDescription(error.response)) || `HTTP ${status} ${statusText}`;
+
+      console.error("[Hue API] request failed", { status, statusText, description });
+
+      throw new Error(description);
+    }
+
+    throw error instanceof Error ? error : new Error(String(error));
+  }
+}
@@ -0,0 +1,265 @@
+import https from "https";
+import { getCredentials, getBridgeTlsOptions } from "./client";
+
+const EVENT_STREAM_PATH = "/eventstream/clip/v2";
+
+// Reconnect delays after the stream drops, doubling up to the maximum
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// A connection dropped without closing (bridge reboot, network change) goes silent; reconnect after this long.
+// The bridge sends nothing while nothing changes, so a quiet stream is reopened (and subscribers revalidate) now and then
+const IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+
+// A resource in an event: its id and type plus only the properties that changed (or all of them for "add")
+export interface HueEventResource {
+  id: string;
+  type: string;
+  [property: string]: unknown;
+}
+
+export interface HueEvent {
+  id: string;
+  creationtime: string;
+  type: "add" | "update" | "delete" | "error";
+  data: HueEventResource[];
+}
+
+type EventListener = (events: HueEvent[]) => void;
+type ErrorListener = (error: Error) => void;
+type ReconnectListener = () => void;
+
+interface EventStream {
+  bridgeIP: string;
+  bridgeId?: string;
+  applicationKey: string;
+  listeners: Set<EventListener>;
+  errorListeners: Set<ErrorListener>;
+  reconnectListeners: Set<ReconnectListener>;
+  // Whether the stream was open before; events sent while it was down are missed
+  hasConnected: boolean;
+  // Set when the bridge refused the stream for good, e.g. because the application key was revoked
+  error?: Error;
+  request?: ReturnType<typeof https.request>;
+  reconnectTimer?: NodeJS.Timeout;
+  reconnectDelay: number;
+  closed: boolean;
+}
+
+// One stream is shared by every subscriber of the active bridge
+let activeStream: EventStream | null = null;
+
+function connect(stream: EventStream) {
+  if (stream.closed) return;
+
+  const request = https.request(
+    {
+      hostname: stream.bridgeIP,
+      port: 443,
+      path: EVENT_STREAM_PATH,
+      method: "GET",
+      headers: {
+        Accept: "text/event-stream",
+        "hue-application-key": stream.applicationKey,
+      },
+      ...getBridgeTlsOptions(stream.bridgeIP, stream.bridgeId),
+    },
+    (res) => {
+      if (res.statusCode === 401 || res.statusCode === 403) {
+        // Retrying won't help until the bridge is set up again
+        res.resume();
+        failStream(stream, new Error(`Live updates stopped: the bridge refused access (HTTP ${res.statusCode})`));
+        return;
+      }
+
+      if (res.statusCode !== 200) {
+        console.error(`[events] event stream failed with HTTP ${res.statusCode}`);
+        res.resume();
+        return;
+      }
+
+      stream.reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+      if (stream.hasConnected) {
+        stream.reconnectListeners.forEach((listener) => listener());
+      }
+      stream.hasConnected = true;
+      res.setEncoding("utf-8");
+
+      let buffer = "";
+      res.on("data", (chunk: string) => {
+        buffer += chunk;
+
+        // Messages are separated by a blank line; keep the incomplete tail for the next chunk
+        const messages = buffer.split(/\r?\n\r?\n/);
+        buffer = messages.pop() ?? "";
+
+        for (const message of messages) {
+          const data = message
+            .split(/\r?\n/)
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).trim())
+            .join("");
+          if (!data) continue;
+
+          try {
+            const events = JSON.parse(data) as HueEvent[];
+            stream.listeners.forEach((listener) => listener(events));
+          } catch {
+            console.error(`[events] failed to parse event: ${data.substring(0, 200)}`);
+          }
+        }
+      });
+    },
+  );
+
+  // The bridge keeps the connection open; reconnect whenever it ends or goes silent
+  request.setTimeout(IDLE_TIMEOUT_MS, () => request.destroy());
+  request.on("close", () => scheduleReconnect(stream));
+  request.on("error", (error) => {
+    console.error(`[events] event stream error:`, error.message);
+  });
+  request.end();
+
+  stream.request = request;
+}
+
+function scheduleReconnect(stream: EventStream) {
+  if (stream.closed || stream.reconnectTimer) return;
+
+  stream.reconnectTimer = setTimeout(() => {
+    stream.reconnectTimer = undefined;
+    connect(stream);
+  }, stream.reconnectDelay);
+  stream.reconnectDelay = Math.min(stream.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+}
+
+function closeStream(stream: EventStream) {
+  stream.closed = true;
+  clearTimeout(stream.reconnectTimer);
+  stream.request?.destroy();
+}
+
+function failStream(stream: EventStream, error: Error) {
+  console.error(`[events] ${error.message}`);
+  stream.error = error;
+  closeStream(stream);
+  stream.errorListeners.forEach((listener) => listener(error));
+}
+
+/**
+ * Listen to the server-sent events of the active bridge.
+ * `onError` is called if the bridge refuses the stream for good, after which no events arrive.
+ * `onReconnect` is called when the stream is open again after dropping, as events sent in between were missed.
+ * Returns a function that stops listening; the connection is closed once nobody listens anymore.
+ */
+export function subscribeToEvents(
+  listener: EventListener,
+  { onError, onReconnect }: { onError?: ErrorListener; onReconnect?: ReconnectListener } = {},
+): () => void {
+  const credentials = getCredentials();
+  if (!credentials) {
+    return () => undefined;
+  }
+
+  // Switching bridges (or setting one up again) drops the stream of the previous one
+  if (
+    activeStream &&
+    (activeStream.bridgeIP !== credentials.bridgeIP || activeStream.applicationKey !== credentials.applicationKey)
+  ) {
+    closeStream(activeStream);
+    activeStream = null;
+  }
+
+  if (!activeStream) {
+    activeStream = {
+      bridgeIP: credentials.bridgeIP,
+      bridgeId: credentials.bridgeId,
+      applicationKey: credentials.applicationKey,
+      listeners: new Set(),
+      errorListeners: new Set(),
+      reconnectListeners: new Set(),
+      hasConnected: false,
+      reconnectDelay: INITIAL_RECONNECT_DELAY_MS,
+      closed: false,
+    };
+    connect(activeStream);
+  }
+
+  const stream = activeStream;
+  stream.listeners.add(listener);
+  if (onError) {
+    stream.errorListeners.add(onError);
+    if (stream.error) {
+      onError(stream.error);
+    }
+  }
+  if (onReconnect) {
+    stream.reconnectListeners.add(onReconnect);
+  }
+
+  return () => {
+    stream.listeners.delete(listener);
+    if (onError) {
+      stream.errorListeners.delete(onError);
+    }
+    if (onReconnect) {
+      stream.reconnectListeners.delete(onReconnect);
+    }
+    if (stream.listeners.size === 0) {
+      closeStream(stream);
+      if (activeStream === stream) {
+        activeStream = null;
+      }
+    }
+  };
+}
+
+// Deep merge changed properties into a resource; arrays and scalar values are replaced
+export function mergeProperties(target: unknown, patch: unknown): unknown {
+  if (
+    typeof target !== "object" ||
+    target === null ||
+    Array.isArray(target) ||
+    typeof patch !== "object" ||
+    patch === null ||
+    Array.isArray(patch)
+  ) {
+    return patch;
+  }
+
+  const merged: Record<string, unknown> = { ...(target as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(patch)) {
+    merged[key] = mergeProperties(merged[key], value);
+  }
+  return merged;
+}
+
+/**
+ * Apply events to a list of resources of the given type:
+ * updates are merged into the matching resource, added resources are appended and deleted ones removed.
+ */
+export function applyEvents<T extends { id?: string }>(resources: T[], events: HueEvent[], resourceType: string): T[] {
+  let result = resources;
+
+  for (const event of events) {
+    for (const resource of event.data ?? []) {
+      if (resource.type !== resourceType) continue;
+
+      switch (event.type) {
+        case "update":
+          result = result.map((r) => (r.id === resource.id ? (mergeProperties(r, resource) as T) : r));
+          break;
+        case "add":
+          if (!result.some((r) => r.id === resource.id)) {
+            result = [...result, resource as unknown as T];
+          }
+          break;
+        case "delete":
+          result = result.filter((r) => r.id !== resource.id);
+          break;
+      }
+    }
+  }
+
+  return result;
+}
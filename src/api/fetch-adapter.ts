@@ -5,11 +5,13 @@ import { hueRequest, HueApiError } from "./client";
  * to be compatible with the generated typescript-fetch client code.
  *
  * This preserves all existing functionality:
- * - Credential loading from Raycast preferences or ~/.openhue/config.yaml
+ * - Requests are sent to the bridge and application key of the API configuration,
+ *   falling back to the active credentials, and pinned to the given bridge id
+ * - Credential loading from bridge profiles, Raycast preferences or ~/.openhue/config.yaml
  * - Self-signed certificate acceptance
  * - Custom error handling via HueApiError
  */
-export async function createFetchAdapter(): Promise<typeof fetch> {
+export async function createFetchAdapter(bridgeId?: string): Promise<typeof fetch> {
   return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
     // Convert fetch arguments to hueRequest format
     const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
@@ -18,6 +20,11 @@ export async function createFetchAdapter(): Promise<typeof fetch> {
     const urlObj = new URL(url, "https://dummy.local");
     const endpoint = urlObj.pathname + urlObj.search;
 
+    // Route the request to the bridge the API client was configured for
+    const bridgeIP = urlObj.hostname !== "dummy.local" ? urlObj.hostname : undefined;
+    const headers = init?.headers as Record<string, string> | undefined;
+    const applicationKey = headers?.["hue-application-key"];
+
     // Extract method and body
     const method = (init?.method || "GET") as "GET" | "PUT" | "POST" | "DELETE";
     let body: unknown;
@@ -80,6 +87,9 @@ export async function createFetchAdapter(): Promise<typeof fetch> {
       const result = await hueRequest<any>(endpoint, {
         method,
         body,
+        bridgeIP,
+        applicationKey,
+        bridgeId,
       });
 
       return buildResponse(200, "OK", result);
@@ -101,20 +111,3 @@ export async function createFetchAdapter(): Promise<typeof fetch> {
     }
   };
 }
-
-/**
- * Singleton instance of the fetch adapter.
- * Initialized lazily on first use.
- */
-let fetchAdapterInstance: typeof fetch | null = null;
-
-/**
- * Get or create the fetch adapter instance.
- * This is used to configure the generated API clients.
- */
-export async function getFetchAdapter(): Promise<typeof fetch> {
-  if (!fetchAdapterInstance) {
-    fetchAdapterInstance = await createFetchAdapter();
-  }
-  return fetchAdapterInstance;
-}
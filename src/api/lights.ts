@@ -1,60 +1,31 @@
 import { LightApi } from "./generated/src/apis/LightApi";
-import { Configuration, ResponseError } from "./generated/src/runtime";
-import { LightGet, LightPut, ResourceIdentifier } from "./generated/src/models";
-import { getFetchAdapter } from "./fetch-adapter";
-import { getCredentials } from "./client";
-
-// Create configured API instance
-let lightApiInstance: LightApi | null = null;
-
-async function getLightApi(): Promise<LightApi> {
-  if (!lightApiInstance) {
-    const fetchAdapter = await getFetchAdapter();
-    const credentials = getCredentials();
-
-    if (!credentials) {
-      throw new Error("Bridge not configured. Please run Setup Hue Bridge first.");
-    }
-
-    const config = new Configuration({
-      basePath: `https://${credentials.bridgeIP}`,
-      fetchApi: fetchAdapter,
-      apiKey: credentials.applicationKey,
-    });
-
-    lightApiInstance = new LightApi(config);
-  }
-
-  return lightApiInstance;
+import { LightGet, LightPut, GroupedLightPut, RoomGet, ResourceIdentifier } from "./generated/src/models";
+import { getApi } from "./configuration";
+import { handleApiError } from "./errors";
+import { updateGroupedLight } from "./rooms";
+
+// Outcome of one light in a batch update
+export interface LightUpdateResult {
+  lightId: string;
+  success: boolean;
+  error?: string;
 }
 
-async function handleApiError<T>(apiCall: () => Promise<T>): Promise<T> {
-  try {
-    return await apiCall();
-  } catch (error) {
-    if (error instanceof ResponseError) {
-      try {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const json: any = await error.response.json();
-        const description =
-          (Array.isArray(json?.errors) && typeof json.errors[0]?.description === "string"
-            ? json.errors[0].description
-            : undefined) || `HTTP ${error.response.status} ${error.response.statusText}`;
-
-        console.error("[Hue API] request failed", {
-          status: error.response.status,
-          statusText: error.response.statusText,
-          description,
-        });
-
-        throw new Error(description);
-      } catch {
-        throw new Error(`HTTP ${error.response.status} ${error.response.statusText}`);
-      }
-    }
-
-    throw error instanceof Error ? error : new Error(String(error));
-  }
+// Properties shared by LightPut and GroupedLightPut; updates with other properties are sent per light
+const GROUPED_LIGHT_PROPERTIES = [
+  "on",
+  "dimming",
+  "dimming_delta",
+  "color_temperature",
+  "color_temperature_delta",
+  "color",
+  "alert",
+  "signaling",
+];
+
+// Get API instances configured for the active bridge
+async function getLightApi(): Promise<LightApi> {
+  return getApi(LightApi);
 }
 
 export async function getLights(): Promise<LightGet[]> {
@@ -94,3 +65,87 @@ export async function setLightColorTemperature(lightId: string, mirek: number):
   const clampedMirek = Math.max(153, Math.min(500, mirek));
   return updateLight(lightId, { color_temperature: { mirek: clampedMirek } });
 }
+
+// Relative changes are applied by the bridge to the current value, so no need to know it
+export async function stepLightBrightness(
+  lightId: string,
+  action: "up" | "down",
+  brightnessDelta: number,
+): Promise<ResourceIdentifier[]> {
+  return updateLight(lightId, { dimming_delta: { action, brightness_delta: brightnessDelta } });
+}
+
+// "up" increases the mirek value, making the light warmer
+export async function stepLightColorTemperature(
+  lightId: string,
+  action: "up" | "down",
+  mirekDelta: number,
+): Promise<ResourceIdentifier[]> {
+  return updateLight(lightId, { color_temperature_delta: { action, mirek_delta: mirekDelta } });
+}
+
+/**
+ * Find the grouped_light that applies an update to exactly the given lights:
+ * every light gets the same update and together they make up one room or zone.
+ */
+function findSharedGroupedLight(
+  updates: Record<string, LightPut>,
+  lights: LightGet[],
+  groups: RoomGet[],
+): string | null {
+  const bodies = Object.values(updates);
+  if (new Set(bodies.map((body) => JSON.stringify(body))).size !== 1) {
+    return null;
+  }
+  if (!Object.keys(bodies[0]).every((key) => GROUPED_LIGHT_PROPERTIES.includes(key))) {
+    return null;
+  }
+
+  const lightIds = new Set(Object.keys(updates));
+
+  for (const group of groups) {
+    // Room children are devices, zone children are lights
+    const childIds = new Set(group.children?.map((child) => child.rid) ?? []);
+    const members = lights.filter((light) => childIds.has(light.id) || childIds.has(light.owner?.rid));
+    const groupedLightId = group.services?.find((s) => s.rtype === "grouped_light")?.rid;
+
+    if (groupedLightId && members.length === lightIds.size && members.every((light) => lightIds.has(light.id!))) {
+      return groupedLightId;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Update several lights at once, by light id.
+ * When all of them get the same update and make up exactly one of the given rooms or zones, a single
+ * grouped_light update is sent; otherwise each light is updated on its own.
+ * `lights` and `groups` are the bridge's current lights, rooms and zones, as the caller already has them.
+ * Never throws: returns the outcome of each light so partial failures can be reported.
+ */
+export async function updateLights(
+  updates: Record<string, LightPut>,
+  { lights, groups }: { lights: LightGet[]; groups: RoomGet[] },
+): Promise<LightUpdateResult[]> {
+  const lightIds = Object.keys(updates);
+  const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Unknown error");
+
+  const groupedLightId = lightIds.length > 1 ? findSharedGroupedLight(updates, lights, groups) : null;
+
+  if (groupedLightId) {
+    try {
+      await updateGroupedLight(groupedLightId, updates[lightIds[0]] as GroupedLightPut);
+      return lightIds.map((lightId) => ({ lightId, success: true }));
+    } catch (error) {
+      return lightIds.map((lightId) => ({ lightId, success: false, error: getErrorMessage(error) }));
+    }
+  }
+
+  const results = await Promise.allSettled(lightIds.map((lightId) => updateLight(lightId, updates[lightId])));
+  return results.map((result, index) =>
+    result.status === "fulfilled"
+      ? { lightId: lightIds[index], success: true }
+      : { lightId: lightIds[index], success: false, error: getErrorMessage(result.reason) },
+  );
+}
@@ -0,0 +1,229 @@
+import dgram from "dgram";
+import { BridgeDiscovery } from "./types";
+
+const MDNS_ADDRESS = "224.0.0.251";
+const MDNS_PORT = 5353;
+const HUE_SERVICE = "_hue._tcp.local";
+
+// How long to collect answers after sending the query
+const DEFAULT_TIMEOUT_MS = 3000;
+
+// DNS record types used by DNS-SD
+const TYPE_A = 1;
+const TYPE_PTR = 12;
+const TYPE_TXT = 16;
+const TYPE_SRV = 33;
+
+interface DnsRecord {
+  name: string;
+  type: number;
+  data: Buffer;
+  // Offset of the record data in the packet, needed to follow compressed names
+  dataOffset: number;
+}
+
+function encodeName(name: string): Buffer {
+  const labels = name.split(".").map((label) => {
+    const bytes = Buffer.from(label, "utf-8");
+    return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+  });
+  return Buffer.concat([...labels, Buffer.from([0])]);
+}
+
+function buildQuery(name: string, type: number): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(1, 4); // One question
+
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(type, 0);
+  question.writeUInt16BE(0x8001, 2); // Class IN, asking for a unicast response
+
+  return Buffer.concat([header, encodeName(name), question]);
+}
+
+/**
+ * Read a (possibly compressed) domain name.
+ * Returns the name and the offset right after it in the original position.
+ */
+function readName(packet: Buffer, offset: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let position = offset;
+  let next = -1;
+
+  // Bound the number of jumps so a malformed packet can't loop forever
+  for (let jumps = 0; jumps < 64; jumps++) {
+    const length = packet.readUInt8(position);
+
+    if (length === 0) {
+      return { name: labels.join("."), next: next === -1 ? position + 1 : next };
+    }
+
+    if ((length & 0xc0) === 0xc0) {
+      if (next === -1) {
+        next = position + 2;
+      }
+      position = packet.readUInt16BE(position) & 0x3fff;
+      continue;
+    }
+
+    labels.push(packet.toString("utf-8", position + 1, position + 1 + length));
+    position += 1 + length;
+  }
+
+  throw new Error("Malformed DNS name");
+}
+
+function parseRecords(packet: Buffer): DnsRecord[] {
+  const questionCount = packet.readUInt16BE(4);
+  const recordCount = packet.readUInt16BE(6) + packet.readUInt16BE(8) + packet.readUInt16BE(10);
+  let offset = 12;
+
+  for (let i = 0; i < questionCount; i++) {
+    offset = readName(packet, offset).next + 4;
+  }
+
+  const records: DnsRecord[] = [];
+  for (let i = 0; i < recordCount; i++) {
+    const { name, next } = readName(packet, offset);
+    const type = packet.readUInt16BE(next);
+    const length = packet.readUInt16BE(next + 8);
+    const dataOffset = next + 10;
+
+    records.push({
+      name: name.toLowerCase(),
+      type,
+      data: packet.subarray(dataOffset, dataOffset + length),
+      dataOffset,
+    });
+    offset = dataOffset + length;
+  }
+
+  return records;
+}
+
+function parseTxt(data: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset < data.length) {
+    const length = data.readUInt8(offset);
+    const entry = data.toString("utf-8", offset + 1, offset + 1 + length);
+    const separator = entry.indexOf("=");
+    if (separator > 0) {
+      entries[entry.slice(0, separator).toLowerCase()] = entry.slice(separator + 1);
+    }
+    offset += 1 + length;
+  }
+
+  return entries;
+}
+
+/**
+ * Resolve Hue bridges from the records of all received answers.
+ * A bridge is advertised as PTR -> service instance, whose SRV record points at a host with an A record,
+ * and whose TXT record carries the bridge id.
+ */
+function resolveBridges(packets: Buffer[]): BridgeDiscovery[] {
+  const instances = new Set<string>();
+  const services = new Map<string, { target: string; port: number }>();
+  const txtRecords = new Map<string, Record<string, string>>();
+  const addresses = new Map<string, string>();
+
+  for (const packet of packets) {
+    try {
+      for (const record of parseRecords(packet)) {
+        switch (record.type) {
+          case TYPE_PTR:
+            if (record.name === HUE_SERVICE) {
+              instances.add(readName(packet, record.dataOffset).name.toLowerCase());
+            }
+            break;
+          case TYPE_SRV:
+            if (record.data.length >= 6) {
+              services.set(record.name, {
+                port: record.data.readUInt16BE(4),
+                target: readName(packet, record.dataOffset + 6).name.toLowerCase(),
+              });
+            }
+            break;
+          case TYPE_TXT:
+            txtRecords.set(record.name, parseTxt(record.data));
+            break;
+          case TYPE_A:
+            if (record.data.length === 4) {
+              addresses.set(record.name, Array.from(record.data).join("."));
+            }
+            break;
+        }
+      }
+    } catch {
+      // Ignore malformed packets from other responders; records read before the error are kept
+    }
+  }
+
+  const bridges: BridgeDiscovery[] = [];
+  for (const instance of instances) {
+    const service = services.get(instance);
+    const address = service ? addresses.get(service.target) : undefined;
+    const bridgeId = txtRecords.get(instance)?.bridgeid;
+
+    if (address && bridgeId) {
+      bridges.push({ id: bridgeId.toLowerCase(), internalipaddress: address, port: service?.port });
+    }
+  }
+
+  return bridges;
+}
+
+/**
+ * Discover Hue bridges on the local network by browsing the _hue._tcp service via mDNS.
+ * Bridges answer with their IP address and bridge id, without needing internet access.
+ */
+export function discoverBridgesMdns(timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<BridgeDiscovery[]> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    const packets: Buffer[] = [];
+    let timer: NodeJS.Timeout | undefined;
+    let settled = false;
+
+    // Close the socket and settle the promise only once, whichever of the timeout or an error comes first
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.close();
+
+      if (error) {
+        reject(new Error(`mDNS discovery failed: ${error.message}`));
+        return;
+      }
+
+      try {
+        resolve(resolveBridges(packets));
+      } catch (resolveError) {
+        reject(resolveError);
+      }
+    };
+
+    socket.on("message", (message) => {
+      packets.push(message);
+    });
+
+    socket.on("error", (error) => finish(error));
+
+    // Bind to a random port: responders then answer the query directly to us,
+    // so we don't compete with the system mDNS responder for port 5353
+    socket.bind(0, () => {
+      socket.send(buildQuery(HUE_SERVICE, TYPE_PTR), MDNS_PORT, MDNS_ADDRESS, (error) => {
+        if (error) {
+          finish(error);
+          return;
+        }
+
+        if (!settled) {
+          timer = setTimeout(() => finish(), timeoutMs);
+        }
+      });
+    });
+  });
+}
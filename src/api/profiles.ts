@@ -0,0 +1,123 @@
+import { environment } from "@raycast/api";
+import fs from "fs";
+import path from "path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+
+// Named bridge profiles are stored in the extension support directory
+const PROFILES_PATH = path.join(environment.supportPath, "bridges.yaml");
+
+export interface BridgeProfile {
+  name: string;
+  bridgeIP: string;
+  applicationKey: string;
+  bridgeId?: string;
+}
+
+interface BridgeProfilesFile {
+  active?: string;
+  bridges?: BridgeProfile[];
+}
+
+function loadProfilesFile(): BridgeProfilesFile {
+  try {
+    if (!fs.existsSync(PROFILES_PATH)) {
+      return {};
+    }
+
+    const content = fs.readFileSync(PROFILES_PATH, "utf-8");
+    return (parseYaml(content) as BridgeProfilesFile) ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function saveProfilesFile(file: BridgeProfilesFile) {
+  fs.mkdirSync(path.dirname(PROFILES_PATH), { recursive: true });
+  fs.writeFileSync(PROFILES_PATH, stringifyYaml(file), "utf-8");
+}
+
+export function getBridgeProfiles(): BridgeProfile[] {
+  return loadProfilesFile().bridges ?? [];
+}
+
+export function getBridgeProfile(name: string): BridgeProfile | undefined {
+  return getBridgeProfiles().find((profile) => profile.name === name);
+}
+
+/**
+ * Name of the active bridge profile, or undefined when the default credentials
+ * (Raycast preferences or ~/.openhue/config.yaml) should be used.
+ */
+export function getActiveBridgeProfileName(): string | undefined {
+  const file = loadProfilesFile();
+  return file.bridges?.some((profile) => profile.name === file.active) ? file.active : undefined;
+}
+
+export function setActiveBridgeProfile(name: string | undefined) {
+  const file = loadProfilesFile();
+  saveProfilesFile({ ...file, active: name });
+}
+
+/**
+ * Add a profile, or replace the profile with the same name.
+ */
+export function saveBridgeProfile(profile: BridgeProfile) {
+  const file = loadProfilesFile();
+  const bridges = (file.bridges ?? []).filter((p) => p.name !== profile.name);
+  saveProfilesFile({ ...file, bridges: [...bridges, profile] });
+}
+
+export function renameBridgeProfile(oldName: string, newName: string) {
+  const file = loadProfilesFile();
+  saveProfilesFile({
+    active: file.active === oldName ? newName : file.active,
+    bridges: (file.bridges ?? []).map((p) => (p.name === oldName ? { ...p, name: newName } : p)),
+  });
+}
+
+/**
+ * Update the IP of every profile for the given bridge, e.g. after DHCP assigned it a new address.
+ */
+export function updateBridgeProfileAddress(bridgeId: string, bridgeIP: string) {
+  const file = loadProfilesFile();
+  saveProfilesFile({
+    ...file,
+    bridges: (file.bridges ?? []).map((p) =>
+      p.bridgeId?.toLowerCase() === bridgeId.toLowerCase() ? { ...p, bridgeIP } : p,
+    ),
+  });
+}
+
+export function deleteBridgeProfile(name: string) {
+  const file = loadProfilesFile();
+  saveProfilesFile({
+    active: file.active === name ? undefined : file.active,
+    bridges: (file.bridges ?? []).filter((p) => p.name !== name),
+  });
+}
+
+/**
+ * Save credentials obtained during setup as a profile.
+ * A profile for the same bridge is updated in place so re-running setup keeps its name.
+ */
+export function addBridgeProfile(credentials: Omit<BridgeProfile, "name">): BridgeProfile {
+  const profiles = getBridgeProfiles();
+  // Match by bridge id first; the IP only identifies the bridge when one of the two has no id,
+  // as another bridge may have taken over the address since
+  const existing =
+    (credentials.bridgeId ? profiles.find((p) => p.bridgeId === credentials.bridgeId) : undefined) ??
+    profiles.find((p) => p.bridgeIP === credentials.bridgeIP && (!credentials.bridgeId || !p.bridgeId));
+
+  let name = existing?.name;
+  if (!name) {
+    const baseName = `Hue Bridge ${credentials.bridgeId?.slice(-6).toUpperCase() ?? credentials.bridgeIP}`;
+    name = baseName;
+    for (let suffix = 2; profiles.some((p) => p.name === name); suffix++) {
+      name = `${baseName} (${suffix})`;
+    }
+  }
+
+  const profile = { ...credentials, bridgeId: credentials.bridgeId ?? existing?.bridgeId, name };
+  saveBridgeProfile(profile);
+  return profile;
+}
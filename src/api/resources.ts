@@ -0,0 +1,76 @@
+import { ResourceApi } from "./generated/src/apis/ResourceApi";
+import { getApi } from "./configuration";
+import { handleApiError } from "./errors";
+import { applyEvents, mergeProperties, HueEvent } from "./events";
+
+// A resource as returned by the bridge, with all of its properties
+export interface HueResource {
+  id: string;
+  type: string;
+  [property: string]: unknown;
+}
+
+// Every resource of the bridge, indexed by type and id
+export type ResourceSnapshot = Record<string, Record<string, HueResource>>;
+
+// Get API instances configured for the active bridge
+async function getResourceApi(): Promise<ResourceApi> {
+  return getApi(ResourceApi);
+}
+
+/**
+ * Fetch every resource of the bridge with a single request.
+ * The generated ResourceGet model only keeps id and type, so the raw response is used.
+ */
+export async function getResourceSnapshot(): Promise<ResourceSnapshot> {
+  const api = await getResourceApi();
+  const response = await handleApiError(() => api.getResourcesRaw());
+  const json = (await response.raw.json()) as { data?: HueResource[] };
+
+  const snapshot: ResourceSnapshot = {};
+  for (const resource of json.data ?? []) {
+    snapshot[resource.type] ??= {};
+    snapshot[resource.type][resource.id] = resource;
+  }
+
+  return snapshot;
+}
+
+/**
+ * Get the resources of one type from a snapshot, converted to their generated model.
+ */
+export function getSnapshotResources<T>(
+  snapshot: ResourceSnapshot | undefined,
+  type: string,
+  fromJSON: (json: unknown) => T,
+): T[] {
+  return Object.values(snapshot?.[type] ?? {}).map(fromJSON);
+}
+
+// Apply bridge events to every resource type they touch
+export function applySnapshotEvents(snapshot: ResourceSnapshot, events: HueEvent[]): ResourceSnapshot {
+  const types = new Set(events.flatMap((event) => (event.data ?? []).map((resource) => resource.type)));
+
+  let result = snapshot;
+  for (const type of types) {
+    const resources = applyEvents(Object.values(result[type] ?? {}), events, type);
+    result = { ...result, [type]: Object.fromEntries(resources.map((resource) => [resource.id, resource])) };
+  }
+
+  return result;
+}
+
+// Merge changed properties into one resource of a snapshot
+export function updateSnapshotResource(
+  snapshot: ResourceSnapshot,
+  type: string,
+  id: string,
+  patch: Record<string, unknown>,
+): ResourceSnapshot {
+  const resource = snapshot[type]?.[id];
+  if (!resource) {
+    return snapshot;
+  }
+
+  return { ...snapshot, [type]: { ...snapshot[type], [id]: mergeProperties(resource, patch) as HueResource } };
+}
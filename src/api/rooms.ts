@@ -1,72 +1,16 @@
 import { RoomApi } from "./generated/src/apis/RoomApi";
 import { GroupedLightApi } from "./generated/src/apis/GroupedLightApi";
-import { Configuration, ResponseError } from "./generated/src/runtime";
-import { RoomGet, GroupedLightGet, GroupedLightPut, ResourceIdentifier } from "./generated/src/models";
-import { getFetchAdapter } from "./fetch-adapter";
-import { getCredentials } from "./client";
-
-// Create configured API instances
-let roomApiInstance: RoomApi | null = null;
-let groupedLightApiInstance: GroupedLightApi | null = null;
-
-async function getConfig(): Promise<Configuration> {
-  const fetchAdapter = await getFetchAdapter();
-  const credentials = getCredentials();
-
-  if (!credentials) {
-    throw new Error("Bridge not configured. Please run Setup Hue Bridge first.");
-  }
-
-  return new Configuration({
-    basePath: `https://${credentials.bridgeIP}`,
-    fetchApi: fetchAdapter,
-    apiKey: credentials.applicationKey,
-  });
-}
+import { RoomGet, RoomPut, GroupedLightGet, GroupedLightPut, ResourceIdentifier } from "./generated/src/models";
+import { getApi } from "./configuration";
+import { handleApiError } from "./errors";
 
+// Get API instances configured for the active bridge
 async function getRoomApi(): Promise<RoomApi> {
-  if (!roomApiInstance) {
-    const config = await getConfig();
-    roomApiInstance = new RoomApi(config);
-  }
-  return roomApiInstance;
+  return getApi(RoomApi);
 }
 
 async function getGroupedLightApi(): Promise<GroupedLightApi> {
-  if (!groupedLightApiInstance) {
-    const config = await getConfig();
-    groupedLightApiInstance = new GroupedLightApi(config);
-  }
-  return groupedLightApiInstance;
-}
-
-async function handleApiError<T>(apiCall: () => Promise<T>): Promise<T> {
-  try {
-    return await apiCall();
-  } catch (error) {
-    if (error instanceof ResponseError) {
-      try {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const json: any = await error.response.json();
-        const description =
-          (Array.isArray(json?.errors) && typeof json.errors[0]?.description === "string"
-            ? json.errors[0].description
-            : undefined) || `HTTP ${error.response.status} ${error.response.statusText}`;
-
-        console.error("[Hue API] request failed", {
-          status: error.response.status,
-          statusText: error.response.statusText,
-          description,
-        });
-
-        throw new Error(description);
-      } catch {
-        throw new Error(`HTTP ${error.response.status} ${error.response.statusText}`);
-      }
-    }
-
-    throw error instanceof Error ? error : new Error(String(error));
-  }
+  return getApi(GroupedLightApi);
 }
 
 export async function getRooms(): Promise<RoomGet[]> {
@@ -81,6 +25,63 @@ export async function getRoom(roomId: string): Promise<RoomGet | null> {
   return response.data?.[0] ?? null;
 }
 
+export async function createRoom(data: RoomPut): Promise<ResourceIdentifier[]> {
+  const api = await getRoomApi();
+  const response = await handleApiError(() => api.createRoom(data));
+  return response.data || [];
+}
+
+export async function updateRoom(roomId: string, data: RoomPut): Promise<ResourceIdentifier[]> {
+  const api = await getRoomApi();
+  const response = await handleApiError(() => api.updateRoom(roomId, data));
+  return response.data || [];
+}
+
+export async function deleteRoom(roomId: string): Promise<ResourceIdentifier[]> {
+  const api = await getRoomApi();
+  const response = await handleApiError(() => api.deleteRoom(roomId));
+  return response.data || [];
+}
+
+/**
+ * Create or update a room (through `save`) with devices that may currently live in other rooms.
+ * A device can only belong to a single room, so the devices are first removed from every room
+ * except `keepRoomId`. If saving fails, the released devices are put back in their previous rooms.
+ */
+export async function moveDevicesToRoom<T>(
+  deviceIds: string[],
+  rooms: RoomGet[],
+  save: () => Promise<T>,
+  keepRoomId?: string,
+): Promise<T> {
+  const moved = new Set(deviceIds);
+  const releasedRooms: Array<{ roomId: string; children: NonNullable<RoomGet["children"]> }> = [];
+
+  try {
+    for (const room of rooms) {
+      if (!room.id || room.id === keepRoomId) continue;
+
+      const children = room.children ?? [];
+      const remaining = children.filter((c) => !(c.rtype === "device" && c.rid && moved.has(c.rid)));
+      if (remaining.length !== children.length) {
+        await updateRoom(room.id, { children: remaining });
+        releasedRooms.push({ roomId: room.id, children });
+      }
+    }
+
+    return await save();
+  } catch (error) {
+    for (const { roomId, children } of releasedRooms) {
+      try {
+        await updateRoom(roomId, { children });
+      } catch (restoreError) {
+        console.error(`[rooms] failed to restore the devices of room ${roomId}:`, restoreError);
+      }
+    }
+    throw error;
+  }
+}
+
 export async function getGroupedLights(): Promise<GroupedLightGet[]> {
   const api = await getGroupedLightApi();
   const response = await handleApiError(() => api.getGroupedLights());
@@ -108,6 +109,24 @@ export async function setRoomBrightness(groupedLightId: string, brightness: numb
   return updateGroupedLight(groupedLightId, { dimming: { brightness: clampedBrightness } });
 }
 
+// Relative changes apply to each light of the group, keeping their differences in brightness
+export async function stepRoomBrightness(
+  groupedLightId: string,
+  action: "up" | "down",
+  brightnessDelta: number,
+): Promise<ResourceIdentifier[]> {
+  return updateGroupedLight(groupedLightId, { dimming_delta: { action, brightness_delta: brightnessDelta } });
+}
+
+// "up" increases the mirek value, making the lights warmer
+export async function stepRoomColorTemperature(
+  groupedLightId: string,
+  action: "up" | "down",
+  mirekDelta: number,
+): Promise<ResourceIdentifier[]> {
+  return updateGroupedLight(groupedLightId, { color_temperature_delta: { action, mirek_delta: mirekDelta } });
+}
+
 // Helper to get the grouped_light service ID from a room
 export function getGroupedLightIdFromRoom(room: RoomGet): string | null {
   const groupedLightService = room.services?.find((s) => s.rtype === "grouped_light");
@@ -1,60 +1,19 @@
 import { SceneApi } from "./generated/src/apis/SceneApi";
-import { Configuration, ResponseError } from "./generated/src/runtime";
-import { SceneGet, ScenePut, ResourceIdentifier } from "./generated/src/models";
-import { getFetchAdapter } from "./fetch-adapter";
-import { getCredentials } from "./client";
-
-// Create configured API instance
-let sceneApiInstance: SceneApi | null = null;
-
+import {
+  SceneGet,
+  ScenePost,
+  ScenePut,
+  ActionGet,
+  ActionPost,
+  LightGet,
+  ResourceIdentifier,
+} from "./generated/src/models";
+import { getApi } from "./configuration";
+import { handleApiError } from "./errors";
+
+// Get API instances configured for the active bridge
 async function getSceneApi(): Promise<SceneApi> {
-  if (!sceneApiInstance) {
-    const fetchAdapter = await getFetchAdapter();
-    const credentials = getCredentials();
-
-    if (!credentials) {
-      throw new Error("Bridge not configured. Please run Setup Hue Bridge first.");
-    }
-
-    const config = new Configuration({
-      basePath: `https://${credentials.bridgeIP}`,
-      fetchApi: fetchAdapter,
-      apiKey: credentials.applicationKey,
-    });
-
-    sceneApiInstance = new SceneApi(config);
-  }
-
-  return sceneApiInstance;
-}
-
-async function handleApiError<T>(apiCall: () => Promise<T>): Promise<T> {
-  try {
-    return await apiCall();
-  } catch (error) {
-    if (error instanceof ResponseError) {
-      try {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const json: any = await error.response.json();
-        const description =
-          (Array.isArray(json?.errors) && typeof json.errors[0]?.description === "string"
-            ? json.errors[0].description
-            : undefined) || `HTTP ${error.response.status} ${error.response.statusText}`;
-
-        console.error("[Hue API] request failed", {
-          status: error.response.status,
-          statusText: error.response.statusText,
-          description,
-        });
-
-        throw new Error(description);
-      } catch {
-        throw new Error(`HTTP ${error.response.status} ${error.response.statusText}`);
-      }
-    }
-
-    throw error instanceof Error ? error : new Error(String(error));
-  }
+  return getApi(SceneApi);
 }
 
 export async function getScenes(): Promise<SceneGet[]> {
@@ -75,6 +34,18 @@ export async function updateScene(sceneId: string, data: ScenePut): Promise<Reso
   return response.data || [];
 }
 
+export async function createScene(data: ScenePost): Promise<ResourceIdentifier[]> {
+  const api = await getSceneApi();
+  const response = await handleApiError(() => api.createScene(data));
+  return response.data || [];
+}
+
+export async function deleteScene(sceneId: string): Promise<ResourceIdentifier[]> {
+  const api = await getSceneApi();
+  const response = await handleApiError(() => api.deleteScene(sceneId));
+  return response.data || [];
+}
+
 export async function activateScene(
   sceneId: string,
   action: "active" | "dynamic_palette" | "static" = "active",
@@ -102,3 +73,37 @@ export function groupScenesByRoom(scenes: SceneGet[]): Map<string, SceneGet[]> {
 
   return grouped;
 }
+
+/**
+ * Build scene actions that reproduce the current state of the given lights.
+ * Lights in color temperature mode keep their mirek, other color lights keep their xy color.
+ */
+export function buildSceneActionsFromLights(lights: LightGet[]): ActionPost[] {
+  return lights
+    .filter((light) => light.id)
+    .map((light) => {
+      const isOn = light.on?.on ?? false;
+      const action: ActionPost["action"] = { on: { on: isOn } };
+
+      if (isOn) {
+        if (light.dimming?.brightness !== undefined) {
+          action.dimming = { brightness: light.dimming.brightness };
+        }
+
+        if (light.color_temperature?.mirek_valid && light.color_temperature.mirek) {
+          action.color_temperature = { mirek: light.color_temperature.mirek };
+        } else if (light.color?.xy) {
+          action.color = { xy: light.color.xy };
+        }
+      }
+
+      return { target: { rid: light.id!, rtype: "light" }, action };
+    });
+}
+
+// Helper to convert the actions of an existing scene into the shape expected by updateScene
+export function toActionPosts(actions: ActionGet[]): ActionPost[] {
+  return actions
+    .filter((a) => a.target)
+    .map((a) => ({ target: a.target as ResourceIdentifier, action: a.action ?? {} }));
+}
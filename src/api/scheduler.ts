@@ -0,0 +1,147 @@
+// Request scheduler respecting the Hue bridge rate limits.
+// Requests are queued per bridge in lanes with their own pace:
+// - light updates: ~10 per second
+// - grouped_light updates: ~1 per second, as each one fans out to every light of the group
+// - everything else (reads, other updates)
+// Queued updates to the same resource are coalesced, and requests rejected with 429/503 are retried with backoff.
+
+type Lane = "light" | "grouped_light" | "default";
+
+const LANE_INTERVALS_MS: Record<Lane, number> = {
+  light: 100,
+  grouped_light: 1000,
+  default: 100,
+};
+
+const RETRY_STATUS_CODES = [429, 503];
+const MAX_RETRIES = 3;
+const INITIAL_BACKOFF_MS = 1000;
+
+interface QueuedRequest {
+  // Requests with the same key update the same resource
+  key?: string;
+  body: unknown;
+  attempt: number;
+  execute: (body: unknown) => Promise<unknown>;
+  // Callers waiting for the request, more than one once updates were coalesced
+  callers: Array<{ resolve: (value: unknown) => void; reject: (reason: unknown) => void }>;
+}
+
+interface LaneQueue {
+  lane: Lane;
+  requests: QueuedRequest[];
+  nextAvailableTime: number;
+  timer?: NodeJS.Timeout;
+}
+
+const queues = new Map<string, LaneQueue>();
+
+function getLane(method: string, endpoint: string): Lane {
+  if (method === "PUT") {
+    if (endpoint.startsWith("/clip/v2/resource/light/")) return "light";
+    if (endpoint.startsWith("/clip/v2/resource/grouped_light/")) return "grouped_light";
+  }
+  return "default";
+}
+
+function isRetryable(error: unknown): boolean {
+  const statusCode = (error as { statusCode?: number } | undefined)?.statusCode;
+  return statusCode !== undefined && RETRY_STATUS_CODES.includes(statusCode);
+}
+
+function hasDelta(body: unknown): boolean {
+  return typeof body === "object" && body !== null && Object.keys(body).some((key) => key.endsWith("_delta"));
+}
+
+/**
+ * Whether a new update makes a queued one obsolete: it sets at least every property the queued one sets.
+ * Relative (delta) updates add up, so they never supersede each other.
+ */
+function supersedes(queuedBody: unknown, body: unknown): boolean {
+  if (typeof queuedBody !== "object" || queuedBody === null || typeof body !== "object" || body === null) {
+    return false;
+  }
+  if (hasDelta(queuedBody) || hasDelta(body)) {
+    return false;
+  }
+  return Object.keys(queuedBody).every((key) => key in body);
+}
+
+function drain(queue: LaneQueue) {
+  if (queue.timer || queue.requests.length === 0) return;
+
+  const delay = Math.max(0, queue.nextAvailableTime - Date.now());
+  queue.timer = setTimeout(() => {
+    queue.timer = undefined;
+
+    const request = queue.requests.shift();
+    if (!request) return;
+
+    queue.nextAvailableTime = Date.now() + LANE_INTERVALS_MS[queue.lane];
+
+    request.execute(request.body).then(
+      (result) => request.callers.forEach((caller) => caller.resolve(result)),
+      (error) => {
+        if (isRetryable(error) && request.attempt < MAX_RETRIES) {
+          // Back off the whole lane: the bridge is asking us to slow down
+          const backoff = INITIAL_BACKOFF_MS * 2 ** request.attempt;
+          console.log(`[scheduler] ${queue.lane} request rate limited, retrying in ${backoff}ms`);
+          request.attempt++;
+          queue.requests.unshift(request);
+          queue.nextAvailableTime = Date.now() + backoff;
+          // The timer set after sending this request still runs at the lane's pace; restart it after the backoff
+          clearTimeout(queue.timer);
+          queue.timer = undefined;
+          drain(queue);
+          return;
+        }
+
+        request.callers.forEach((caller) => caller.reject(error));
+      },
+    );
+
+    drain(queue);
+  }, delay);
+}
+
+/**
+ * Queue a request to a bridge.
+ * `execute` sends the request with the given body, which may be a newer body when updates were coalesced.
+ */
+export function scheduleRequest<T>(
+  request: { bridgeIP: string; method: string; endpoint: string; body?: unknown },
+  execute: (body: unknown) => Promise<T>,
+): Promise<T> {
+  const lane = getLane(request.method, request.endpoint);
+  const queueKey = `${request.bridgeIP}|${lane}`;
+
+  let queue = queues.get(queueKey);
+  if (!queue) {
+    queue = { lane, requests: [], nextAvailableTime: 0 };
+    queues.set(queueKey, queue);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const caller = { resolve: resolve as (value: unknown) => void, reject };
+    const key = lane !== "default" ? request.endpoint : undefined;
+
+    // Replace the last queued update of the same resource instead of sending both.
+    // Earlier ones are left alone: moving this update before a later one would reorder the writes
+    const queued = key ? queue.requests.findLast((r) => r.key === key) : undefined;
+    if (queued && supersedes(queued.body, request.body)) {
+      queued.body = request.body;
+      queued.callers.push(caller);
+      return;
+    }
+
+    queue.requests.push({ key, body: request.body, attempt: 0, execute, callers: [caller] });
+    drain(queue);
+  });
+}
+
+/**
+ * Number of queued requests per bridge and lane, for debugging.
+ */
+export function getQueueDepths(): Record<string, number> {
+  return Object.fromEntries(Array.from(queues.entries()).map(([key, queue]) => [key, queue.requests.length]));
+}
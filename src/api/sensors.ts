@@ -0,0 +1,93 @@
+import { MotionApi } from "./generated/src/apis/MotionApi";
+import { LightLevelApi } from "./generated/src/apis/LightLevelApi";
+import { TemperatureApi } from "./generated/src/apis/TemperatureApi";
+import {
+  MotionGet,
+  MotionPut,
+  LightLevelGet,
+  LightLevelPut,
+  TemperatureGet,
+  TemperaturePut,
+  ResourceIdentifier,
+} from "./generated/src/models";
+import { getApi } from "./configuration";
+import { handleApiError } from "./errors";
+
+// Get API instances configured for the active bridge
+async function getMotionApi(): Promise<MotionApi> {
+  return getApi(MotionApi);
+}
+
+async function getLightLevelApi(): Promise<LightLevelApi> {
+  return getApi(LightLevelApi);
+}
+
+async function getTemperatureApi(): Promise<TemperatureApi> {
+  return getApi(TemperatureApi);
+}
+
+export async function getMotionSensors(): Promise<MotionGet[]> {
+  const api = await getMotionApi();
+  const response = await handleApiError(() => api.getMotionSensors());
+  return response.data || [];
+}
+
+export async function updateMotionSensor(motionId: string, data: MotionPut): Promise<ResourceIdentifier[]> {
+  const api = await getMotionApi();
+  const response = await handleApiError(() => api.updateMotionSensor(motionId, data));
+  return response.data || [];
+}
+
+export async function setMotionSensitivity(motionId: string, sensitivity: number): Promise<ResourceIdentifier[]> {
+  return updateMotionSensor(motionId, { sensitivity: { sensitivity } });
+}
+
+export async function getLightLevels(): Promise<LightLevelGet[]> {
+  const api = await getLightLevelApi();
+  const response = await handleApiError(() => api.getLightLevels());
+  return response.data || [];
+}
+
+export async function updateLightLevel(lightLevelId: string, data: LightLevelPut): Promise<ResourceIdentifier[]> {
+  const api = await getLightLevelApi();
+  const response = await handleApiError(() => api.updateLightLevel(lightLevelId, data));
+  return response.data || [];
+}
+
+export async function getTemperatures(): Promise<TemperatureGet[]> {
+  const api = await getTemperatureApi();
+  const response = await handleApiError(() => api.getTemperatures());
+  return response.data || [];
+}
+
+export async function updateTemperature(temperatureId: string, data: TemperaturePut): Promise<ResourceIdentifier[]> {
+  const api = await getTemperatureApi();
+  const response = await handleApiError(() => api.updateTemperature(temperatureId, data));
+  return response.data || [];
+}
+
+export type SensorType = "motion" | "light_level" | "temperature";
+
+export async function setSensorEnabled(
+  type: SensorType,
+  sensorId: string,
+  enabled: boolean,
+): Promise<ResourceIdentifier[]> {
+  switch (type) {
+    case "motion":
+      return updateMotionSensor(sensorId, { enabled });
+    case "light_level":
+      return updateLightLevel(sensorId, { enabled });
+    case "temperature":
+      return updateTemperature(sensorId, { enabled });
+  }
+}
+
+// Light level is reported as 10000 * log10(lux) + 1
+export function lightLevelToLux(lightLevel: number): number {
+  return Math.pow(10, (lightLevel - 1) / 10000);
+}
+
+export function celsiusToFahrenheit(celsius: number): number {
+  return (celsius * 9) / 5 + 32;
+}
@@ -0,0 +1,96 @@
+import { SmartSceneApi } from "./generated/src/apis/SmartSceneApi";
+import {
+  SmartSceneGet,
+  SmartScenePost,
+  SmartScenePut,
+  SmartSceneTimeslotGet,
+  ResourceIdentifier,
+  Weekday,
+} from "./generated/src/models";
+import { getApi } from "./configuration";
+import { handleApiError } from "./errors";
+
+// Get API instances configured for the active bridge
+async function getSmartSceneApi(): Promise<SmartSceneApi> {
+  return getApi(SmartSceneApi);
+}
+
+export async function getSmartScenes(): Promise<SmartSceneGet[]> {
+  const api = await getSmartSceneApi();
+  const response = await handleApiError(() => api.getSmartScenes());
+  return response.data || [];
+}
+
+export async function getSmartScene(smartSceneId: string): Promise<SmartSceneGet | null> {
+  const api = await getSmartSceneApi();
+  const response = await handleApiError(() => api.getSmartScene(smartSceneId));
+  return response.data?.[0] ?? null;
+}
+
+export async function createSmartScene(data: SmartScenePost): Promise<ResourceIdentifier[]> {
+  const api = await getSmartSceneApi();
+  const response = await handleApiError(() => api.createSmartScene(data));
+  return response.data || [];
+}
+
+export async function updateSmartScene(smartSceneId: string, data: SmartScenePut): Promise<ResourceIdentifier[]> {
+  const api = await getSmartSceneApi();
+  const response = await handleApiError(() => api.updateSmartScene(smartSceneId, data));
+  return response.data || [];
+}
+
+export async function activateSmartScene(smartSceneId: string): Promise<ResourceIdentifier[]> {
+  return updateSmartScene(smartSceneId, { recall: { action: "activate" } });
+}
+
+export async function deactivateSmartScene(smartSceneId: string): Promise<ResourceIdentifier[]> {
+  return updateSmartScene(smartSceneId, { recall: { action: "deactivate" } });
+}
+
+// Helper to find the timeslot currently running for a smart scene
+export function getActiveTimeslot(smartScene: SmartSceneGet): SmartSceneTimeslotGet | null {
+  const active = smartScene.active_timeslot;
+  if (!active) return null;
+
+  const day = smartScene.week_timeslots?.find((d) => d.recurrence?.includes(active.weekday));
+  return day?.timeslots?.[active.timeslot_id] ?? null;
+}
+
+// Days of the week in calendar order, starting on Monday
+export const WEEKDAYS: Weekday[] = Object.values(Weekday);
+
+/**
+ * Validate the timeslots of a day before sending them to the bridge.
+ * Timed slots must be listed in ascending order without two slots starting at the same time,
+ * and only one slot may start at sunset. Returns an error message, or null when valid.
+ */
+export function validateTimeslots(timeslots: SmartSceneTimeslotGet[]): string | null {
+  if (timeslots.length === 0) {
+    return "Add at least one timeslot";
+  }
+
+  if (timeslots.filter((t) => t.start_time.kind === "sunset").length > 1) {
+    return "Only one timeslot can start at sunset";
+  }
+
+  let previous: number | null = null;
+  for (const [index, timeslot] of timeslots.entries()) {
+    if (!timeslot.target?.rid) {
+      return `Timeslot ${index + 1} has no scene`;
+    }
+    if (timeslot.start_time.kind !== "time") continue;
+
+    const { hour = 0, minute = 0, second = 0 } = timeslot.start_time.time ?? {};
+    const seconds = hour * 3600 + minute * 60 + second;
+
+    if (previous !== null && seconds === previous) {
+      return `Timeslot ${index + 1} overlaps with the previous timeslot`;
+    }
+    if (previous !== null && seconds < previous) {
+      return `Timeslot ${index + 1} starts before the previous timeslot`;
+    }
+    previous = seconds;
+  }
+
+  return null;
+}
@@ -271,3 +271,17 @@ export interface AuthResponse {
     description: string;
   };
 }
+
+// Unauthenticated bridge configuration (GET /api/0/config)
+export interface BridgePublicConfig {
+  name?: string;
+  bridgeid?: string;
+  modelid?: string;
+  swversion?: string;
+  apiversion?: string;
+}
+
+// Result of checking an IP address before authenticating with it
+export type BridgeProbeResult =
+  | { status: "ok"; bridgeId: string }
+  | { status: "unreachable" | "not-hue-bridge" | "tls-mismatch"; message: string };
@@ -0,0 +1,46 @@
+import { ZoneApi } from "./generated/src/apis/ZoneApi";
+import { RoomGet, RoomPut, ResourceIdentifier } from "./generated/src/models";
+import { getApi } from "./configuration";
+import { handleApiError } from "./errors";
+
+// Get API instances configured for the active bridge
+async function getZoneApi(): Promise<ZoneApi> {
+  return getApi(ZoneApi);
+}
+
+// Zones share the room schema (RoomGet/RoomPut), but their children are lights instead of devices
+export async function getZones(): Promise<RoomGet[]> {
+  const api = await getZoneApi();
+  const response = await handleApiError(() => api.getZones());
+  return response.data || [];
+}
+
+export async function getZone(zoneId: string): Promise<RoomGet | null> {
+  const api = await getZoneApi();
+  const response = await handleApiError(() => api.getZone(zoneId));
+  return response.data?.[0] ?? null;
+}
+
+export async function createZone(data: RoomPut): Promise<ResourceIdentifier[]> {
+  const api = await getZoneApi();
+  const response = await handleApiError(() => api.createZone(data));
+  return response.data || [];
+}
+
+export async function updateZone(zoneId: string, data: RoomPut): Promise<ResourceIdentifier[]> {
+  const api = await getZoneApi();
+  const response = await handleApiError(() => api.updateZone(zoneId, data));
+  return response.data || [];
+}
+
+export async function deleteZone(zoneId: string): Promise<ResourceIdentifier[]> {
+  const api = await getZoneApi();
+  const response = await handleApiError(() => api.deleteZone(zoneId));
+  return response.data || [];
+}
+
+// Helper to get the grouped_light service ID from a zone
+export function getGroupedLightIdFromZone(zone: RoomGet): string | null {
+  const groupedLightService = zone.services?.find((s) => s.rtype === "grouped_light");
+  return groupedLightService?.rid ?? null;
+}
@@ -0,0 +1,144 @@
+import { List, ActionPanel, Action, Icon, showToast, Toast, Color, openExtensionPreferences } from "@raycast/api";
+import { useDevicePowersWithDevices, findRoomForDevice } from "./hooks/useHue";
+import type { DevicePowerGet as DevicePower, DeviceGet as Device } from "./api/generated/src/models";
+import { getCredentials } from "./api/client";
+import { SwitchBridgeSubmenu } from "./components/SwitchBridgeSubmenu";
+import { useBridgeProfiles, BridgeProfiles } from "./hooks/useBridgeProfiles";
+
+type BatteryState = "normal" | "low" | "critical";
+
+export default function BatteryCommand() {
+  const credentials = getCredentials();
+
+  if (!credentials) {
+    return <NoBridgeConfigured />;
+  }
+
+  return <BatteryList />;
+}
+
+function NoBridgeConfigured() {
+  return (
+    <List>
+      <List.EmptyView
+        icon={Icon.ExclamationMark}
+        title="Hue Bridge Not Configured"
+        description="Please run 'Setup Hue Bridge' to connect to your Philips Hue system."
+        actions={
+          <ActionPanel>
+            <Action title="Open Extension Preferences" onAction={openExtensionPreferences} />
+          </ActionPanel>
+        }
+      />
+    </List>
+  );
+}
+
+function BatteryList() {
+  const { devicePowers, devices, rooms, isLoading, error, revalidate } = useDevicePowersWithDevices();
+  const bridgeProfiles = useBridgeProfiles();
+
+  if (error) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to load battery levels",
+      message: error.message,
+    });
+  }
+
+  // Only devices reporting a battery are relevant, lowest battery first
+  const batteries = devicePowers
+    .filter((power) => power.power_state?.battery_level !== undefined)
+    .map((power) => ({ power, device: devices.find((d) => d.id === power.owner?.rid) }))
+    .sort((a, b) => (a.power.power_state?.battery_level ?? 0) - (b.power.power_state?.battery_level ?? 0));
+
+  const needsAttention = batteries.filter(({ power }) => power.power_state?.battery_state !== "normal");
+  const healthy = batteries.filter(({ power }) => power.power_state?.battery_state === "normal");
+
+  const renderItem = ({ power, device }: { power: DevicePower; device: Device | undefined }) => (
+    <BatteryListItem
+      key={power.id}
+      power={power}
+      device={device}
+      roomName={findRoomForDevice(power.owner?.rid ?? "", rooms)?.metadata?.name ?? "Unassigned"}
+      revalidate={revalidate}
+      bridgeProfiles={bridgeProfiles}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search battery powered devices...">
+      <List.Section title="Needs Attention" subtitle={`${needsAttention.length} devices`}>
+        {needsAttention.map(renderItem)}
+      </List.Section>
+      <List.Section title="Healthy" subtitle={`${healthy.length} devices`}>
+        {healthy.map(renderItem)}
+      </List.Section>
+    </List>
+  );
+}
+
+function BatteryListItem({
+  power,
+  device,
+  roomName,
+  revalidate,
+  bridgeProfiles,
+}: {
+  power: DevicePower;
+  device: Device | undefined;
+  roomName: string;
+  revalidate: () => Promise<void>;
+  bridgeProfiles: BridgeProfiles;
+}) {
+  const level = power.power_state?.battery_level ?? 0;
+  const state = (power.power_state?.battery_state ?? "normal") as BatteryState;
+  const deviceName = device?.metadata?.name ?? "Unknown Device";
+  const tintColor = getBatteryColor(state);
+
+  const accessories: List.Item.Accessory[] = [
+    { tag: { value: formatBatteryState(state), color: tintColor } },
+    { text: { value: `${level}%`, color: state === "normal" ? undefined : tintColor } },
+  ];
+
+  return (
+    <List.Item
+      icon={{ source: getBatteryIcon(state), tintColor }}
+      title={deviceName}
+      subtitle={`${roomName} • ${device?.product_data?.product_name ?? "Unknown Product"}`}
+      keywords={[roomName]}
+      accessories={accessories}
+      actions={
+        <ActionPanel>
+          <Action.CopyToClipboard title="Copy Device Name" content={deviceName} />
+          <Action
+            icon={Icon.ArrowClockwise}
+            title="Refresh"
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+            onAction={revalidate}
+          />
+          <SwitchBridgeSubmenu bridgeProfiles={bridgeProfiles} />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+function getBatteryColor(state: BatteryState): Color {
+  switch (state) {
+    case "critical":
+      return Color.Red;
+    case "low":
+      return Color.Orange;
+    default:
+      return Color.Green;
+  }
+}
+
+function getBatteryIcon(state: BatteryState): Icon {
+  return state === "normal" ? Icon.Battery : Icon.BatteryDisabled;
+}
+
+function formatBatteryState(state: BatteryState): string {
+  return state.charAt(0).toUpperCase() + state.slice(1);
+}
@@ -0,0 +1,104 @@
+import { Detail, List, ActionPanel, Action, Icon, showToast, Toast, openExtensionPreferences } from "@raycast/api";
+import { useBridgeInfo } from "./hooks/useHue";
+import { countResourcesByType } from "./api/bridge";
+import { getCredentials } from "./api/client";
+import { SwitchBridgeSubmenu } from "./components/SwitchBridgeSubmenu";
+import { useActiveBridgeIP, useBridgeProfiles } from "./hooks/useBridgeProfiles";
+
+function formatResourceType(type: string): string {
+  return type
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+export default function BridgeCommand() {
+  const credentials = getCredentials();
+
+  if (!credentials) {
+    return <NoBridgeConfigured />;
+  }
+
+  return <BridgeDetail />;
+}
+
+function NoBridgeConfigured() {
+  return (
+    <List>
+      <List.EmptyView
+        icon={Icon.ExclamationMark}
+        title="Hue Bridge Not Configured"
+        description="Please run 'Setup Hue Bridge' to connect to your Philips Hue system."
+        actions={
+          <ActionPanel>
+            <Action title="Open Extension Preferences" onAction={openExtensionPreferences} />
+          </ActionPanel>
+        }
+      />
+    </List>
+  );
+}
+
+function BridgeDetail() {
+  // Read here rather than passed down, so switching bridges updates the IP along with the rest
+  const bridgeIP = useActiveBridgeIP() ?? "Unknown";
+  const bridgeProfiles = useBridgeProfiles();
+  const { bridge, bridgeHomes, resources, isLoading, error, revalidate } = useBridgeInfo();
+
+  if (error) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to load bridge information",
+      message: error.message,
+    });
+  }
+
+  const resourceCounts = countResourcesByType(resources);
+  const bridgeHome = bridgeHomes[0];
+
+  const markdown = [
+    `# Hue Bridge ${bridge?.bridge_id?.toUpperCase() ?? ""}`,
+    "",
+    `Connected to **${bridgeIP}**.`,
+    "",
+    "## Resources",
+    "",
+    "| Type | Count |",
+    "| --- | ---: |",
+    ...resourceCounts.map(({ type, count }) => `| ${formatResourceType(type)} | ${count} |`),
+    "",
+    `**Total:** ${resources.length}`,
+  ].join("\n");
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle="Bridge Info"
+      markdown={markdown}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="Bridge ID" text={bridge?.bridge_id ?? "Unknown"} />
+          <Detail.Metadata.Label title="IP Address" text={bridgeIP} />
+          <Detail.Metadata.Label title="Time Zone" text={bridge?.time_zone?.time_zone ?? "Not configured"} />
+          <Detail.Metadata.Separator />
+          <Detail.Metadata.Label title="Bridge Home" text={bridgeHome?.id ?? "Unknown"} />
+          <Detail.Metadata.Label title="Home Children" text={String(bridgeHome?.children?.length ?? 0)} />
+          <Detail.Metadata.Label title="Home Services" text={String(bridgeHome?.services?.length ?? 0)} />
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          {bridge?.bridge_id && <Action.CopyToClipboard title="Copy Bridge ID" content={bridge.bridge_id} />}
+          <Action.CopyToClipboard title="Copy Bridge IP" content={bridgeIP} />
+          <Action
+            icon={Icon.ArrowClockwise}
+            title="Refresh"
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+            onAction={revalidate}
+          />
+          <SwitchBridgeSubmenu bridgeProfiles={bridgeProfiles} />
+        </ActionPanel>
+      }
+    />
+  );
+}
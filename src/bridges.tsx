@@ -0,0 +1,126 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  Color,
+  showToast,
+  Toast,
+  Alert,
+  confirmAlert,
+  launchCommand,
+  LaunchType,
+} from "@raycast/api";
+import { deleteBridgeProfile, BridgeProfile } from "./api/profiles";
+import { useBridgeProfiles } from "./hooks/useBridgeProfiles";
+import { RenameBridgeProfileForm } from "./components/RenameBridgeProfileForm";
+
+export default function BridgesCommand() {
+  const { profiles, activeProfileName, defaultCredentials, switchProfile, notifyProfilesChanged } = useBridgeProfiles();
+
+  const addBridgeAction = (
+    <Action
+      icon={Icon.Plus}
+      title="Add Bridge"
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      onAction={() => launchCommand({ name: "setup", type: LaunchType.UserInitiated })}
+    />
+  );
+
+  const handleSwitch = async (name: string | undefined, label: string) => {
+    switchProfile(name);
+    await showToast({
+      style: Toast.Style.Success,
+      title: `Switched to ${label}`,
+    });
+  };
+
+  const handleDelete = async (profile: BridgeProfile) => {
+    const confirmed = await confirmAlert({
+      title: `Delete bridge "${profile.name}"?`,
+      message: "The stored application key will be forgotten. Run Setup Hue Bridge again to reconnect to it.",
+      icon: Icon.Trash,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    deleteBridgeProfile(profile.name);
+    notifyProfilesChanged();
+    await showToast({
+      style: Toast.Style.Success,
+      title: `${profile.name} deleted`,
+    });
+  };
+
+  const activeAccessory = { tag: { value: "Active", color: Color.Green } };
+
+  return (
+    <List searchBarPlaceholder="Search bridges...">
+      <List.EmptyView
+        icon={Icon.Network}
+        title="No Bridges Configured"
+        description="Run 'Setup Hue Bridge' to add a bridge."
+        actions={<ActionPanel>{addBridgeAction}</ActionPanel>}
+      />
+      {defaultCredentials && (
+        <List.Section title="Default">
+          <List.Item
+            icon={Icon.Gear}
+            title="Default Bridge"
+            subtitle={defaultCredentials.bridgeIP}
+            accessories={activeProfileName === undefined ? [activeAccessory] : []}
+            actions={
+              <ActionPanel>
+                <Action
+                  icon={Icon.Switch}
+                  title="Use This Bridge"
+                  onAction={() => handleSwitch(undefined, "default bridge")}
+                />
+                {addBridgeAction}
+              </ActionPanel>
+            }
+          />
+        </List.Section>
+      )}
+      <List.Section title="Profiles" subtitle={`${profiles.length} bridges`}>
+        {profiles.map((profile) => (
+          <List.Item
+            key={profile.name}
+            icon={Icon.Network}
+            title={profile.name}
+            subtitle={profile.bridgeIP}
+            keywords={profile.bridgeId ? [profile.bridgeId] : []}
+            accessories={profile.name === activeProfileName ? [activeAccessory] : []}
+            actions={
+              <ActionPanel>
+                <ActionPanel.Section>
+                  <Action
+                    icon={Icon.Switch}
+                    title="Use This Bridge"
+                    onAction={() => handleSwitch(profile.name, profile.name)}
+                  />
+                  <Action.Push
+                    icon={Icon.Pencil}
+                    title="Rename Bridge"
+                    shortcut={{ modifiers: ["cmd"], key: "e" }}
+                    target={<RenameBridgeProfileForm profileName={profile.name} />}
+                  />
+                  {addBridgeAction}
+                </ActionPanel.Section>
+                <ActionPanel.Section>
+                  <Action
+                    icon={Icon.Trash}
+                    title="Delete Bridge"
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => handleDelete(profile)}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Form, ActionPanel, Action, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { getBridgeProfiles, renameBridgeProfile } from "../api/profiles";
+import { useBridgeProfiles } from "../hooks/useBridgeProfiles";
+
+export function RenameBridgeProfileForm({
+  profileName,
+  onRename,
+}: {
+  profileName: string;
+  onRename?: (name: string) => void;
+}) {
+  const { pop } = useNavigation();
+  const { notifyProfilesChanged } = useBridgeProfiles();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  const handleSubmit = async (values: { name: string }) => {
+    const name = values.name.trim();
+    if (!name) {
+      setNameError("Name is required");
+      return;
+    }
+    if (name !== profileName && getBridgeProfiles().some((profile) => profile.name === name)) {
+      setNameError("A bridge with this name already exists");
+      return;
+    }
+
+    renameBridgeProfile(profileName, name);
+    notifyProfilesChanged();
+    onRename?.(name);
+    await showToast({
+      style: Toast.Style.Success,
+      title: `Bridge renamed to ${name}`,
+    });
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle={`Rename ${profileName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Rename Bridge" icon={Icon.Check} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="e.g., Office 2nd Floor"
+        defaultValue={profileName}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+    </Form>
+  );
+}
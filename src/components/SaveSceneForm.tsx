@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Form, ActionPanel, Action, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { getLights } from "../api/lights";
+import { createScene, buildSceneActionsFromLights } from "../api/scenes";
+import { findLightsInGroup } from "../hooks/useHue";
+import type { RoomGet as Group } from "../api/generated/src/models";
+
+// Scene names are limited to 32 characters by the bridge
+const MAX_SCENE_NAME_LENGTH = 32;
+
+/**
+ * Form that captures the current state of every light in a room or zone as a new scene.
+ */
+export function SaveSceneForm({
+  group,
+  groupType,
+  revalidate,
+}: {
+  group: Group;
+  groupType: "room" | "zone";
+  revalidate: () => Promise<void>;
+}) {
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+  const groupName = group.metadata?.name ?? (groupType === "room" ? "Unknown Room" : "Unknown Zone");
+
+  const handleSubmit = async (values: { name: string }) => {
+    const name = values.name.trim();
+    if (!name) {
+      setNameError("Name is required");
+      return;
+    }
+    if (name.length > MAX_SCENE_NAME_LENGTH) {
+      setNameError(`Name must be at most ${MAX_SCENE_NAME_LENGTH} characters`);
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Saving scene..." });
+
+    try {
+      // Read fresh light states rather than relying on possibly stale cached data
+      const lights = findLightsInGroup(group, await getLights());
+      if (lights.length === 0) {
+        throw new Error(`${groupName} has no lights`);
+      }
+
+      await createScene({
+        type: "scene",
+        metadata: { name },
+        group: { rid: group.id!, rtype: groupType },
+        actions: buildSceneActionsFromLights(lights),
+      });
+
+      toast.style = Toast.Style.Success;
+      toast.title = `Scene "${name}" saved`;
+      toast.message = `${lights.length} lights captured`;
+      await revalidate();
+      pop();
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to save scene";
+      toast.message = error instanceof Error ? error.message : "Unknown error";
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`Save Scene for ${groupName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Scene" icon={Icon.SaveDocument} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        text={`The current on/off state, brightness and color of every light in ${groupName} will be saved.`}
+      />
+      <Form.TextField
+        id="name"
+        title="Scene Name"
+        placeholder="e.g., Movie Night"
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+    </Form>
+  );
+}
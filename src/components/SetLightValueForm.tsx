@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Form, ActionPanel, Action, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { setLightBrightness, setLightColor, setLightColorTemperature } from "../api/lights";
+import { withBridge } from "../api/configuration";
+import { BridgeConnection } from "../api/client";
+import { UpdateResource } from "../hooks/useHue";
+import { parseColor, hexToXY, kelvinToMirek, mirekToKelvin, mirekToXY, Gamut } from "../utils/color";
+import type { LightGet as Light } from "../api/generated/src/models";
+
+// Mirek range of lights that don't report their own (6500K to 2000K)
+const DEFAULT_MIREK_MINIMUM = 153;
+const DEFAULT_MIREK_MAXIMUM = 500;
+
+type LightValue =
+  | { type: "brightness"; brightness: number }
+  | { type: "color"; hex: string }
+  | { type: "temperature"; kelvin: number };
+
+/**
+ * Parse a brightness (50%, or a bare number up to 100), a color temperature (2700K, or a bare number from 1000)
+ * or a color (hex, rgb(), hsl() or CSS color name).
+ */
+function parseLightValue(input: string): LightValue | null {
+  const value = input.trim();
+
+  const percentage = value.match(/^(\d+(?:\.\d+)?)\s*%$/);
+  if (percentage) {
+    return { type: "brightness", brightness: Number(percentage[1]) };
+  }
+
+  const kelvin = value.match(/^(\d+)\s*k$/i);
+  if (kelvin) {
+    return { type: "temperature", kelvin: Number(kelvin[1]) };
+  }
+
+  // Check bare numbers before colors, so "100" isn't read as the hex color #110000
+  if (/^\d+(?:\.\d+)?$/.test(value)) {
+    const number = Number(value);
+    if (number <= 100) return { type: "brightness", brightness: number };
+    if (number >= 1000) return { type: "temperature", kelvin: number };
+    return null;
+  }
+
+  const hex = parseColor(value);
+  return hex ? { type: "color", hex } : null;
+}
+
+// Color gamut the light reports, if complete
+function getLightGamut(light: Light): Gamut | undefined {
+  const { red, green, blue } = light.color?.gamut ?? {};
+  if (red?.x === undefined || red.y === undefined) return undefined;
+  if (green?.x === undefined || green.y === undefined) return undefined;
+  if (blue?.x === undefined || blue.y === undefined) return undefined;
+
+  return {
+    red: { x: red.x, y: red.y },
+    green: { x: green.x, y: green.y },
+    blue: { x: blue.x, y: blue.y },
+  };
+}
+
+// Check a value against what the light supports; returns an error message if it can't be applied
+function validateLightValue(value: LightValue, light: Light): string | undefined {
+  switch (value.type) {
+    case "brightness":
+      if (!light.dimming) return "This light can't be dimmed";
+      if (value.brightness < 1 || value.brightness > 100) return "Brightness must be between 1% and 100%";
+      return undefined;
+    case "color":
+      if (!light.color) return "This light doesn't support colors";
+      // Black has no chromaticity to send; the light can only be turned off for that
+      if (value.hex === "#000000") return "Black can't be set as a color; turn the light off instead";
+      return undefined;
+    case "temperature": {
+      if (!light.color_temperature) return "This light doesn't support color temperature";
+      const minimum = light.color_temperature.mirek_schema?.mirek_minimum ?? DEFAULT_MIREK_MINIMUM;
+      const maximum = light.color_temperature.mirek_schema?.mirek_maximum ?? DEFAULT_MIREK_MAXIMUM;
+      const mirek = kelvinToMirek(value.kelvin);
+      if (mirek < minimum || mirek > maximum) {
+        return `Color temperature must be between ${mirekToKelvin(maximum)}K and ${mirekToKelvin(minimum)}K`;
+      }
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Form to set an exact brightness, color or color temperature on a light by typing it.
+ */
+export function SetLightValueForm({
+  light,
+  bridge,
+  updateResource,
+}: {
+  light: Light;
+  bridge?: BridgeConnection;
+  updateResource: UpdateResource;
+}) {
+  const { pop } = useNavigation();
+  const [valueError, setValueError] = useState<string | undefined>();
+  const lightName = light.metadata?.name ?? "Unknown Light";
+
+  const examples = [
+    light.dimming && "75%",
+    light.color && "#ff8800, rgb(255, 136, 0), hsl(32, 100%, 50%), tomato",
+    light.color_temperature && "2700K",
+  ].filter(Boolean);
+
+  const handleSubmit = async (values: { value: string }) => {
+    const value = parseLightValue(values.value);
+    if (!value) {
+      setValueError("Enter a brightness, color or color temperature");
+      return;
+    }
+
+    const validationError = validateLightValue(value, light);
+    if (validationError) {
+      setValueError(validationError);
+      return;
+    }
+
+    try {
+      switch (value.type) {
+        case "brightness":
+          await updateResource(
+            "light",
+            light.id!,
+            { dimming: { brightness: value.brightness } },
+            withBridge(bridge, () => setLightBrightness(light.id!, value.brightness)),
+            bridge,
+          );
+          await showToast({ style: Toast.Style.Success, title: `${lightName} brightness set to ${value.brightness}%` });
+          break;
+        case "color": {
+          // Clamp to what this light can show rather than the default gamut
+          const xy = hexToXY(value.hex, getLightGamut(light));
+          await updateResource(
+            "light",
+            light.id!,
+            { color: { xy } },
+            withBridge(bridge, () => setLightColor(light.id!, xy.x, xy.y)),
+            bridge,
+          );
+          await showToast({ style: Toast.Style.Success, title: `${lightName} color set to ${value.hex}` });
+          break;
+        }
+        case "temperature": {
+          const mirek = kelvinToMirek(value.kelvin);
+          await updateResource(
+            "light",
+            light.id!,
+            {
+              color_temperature: { mirek, mirek_valid: true },
+              // The icon tint of color lights follows their xy color
+              ...(light.color && { color: { xy: mirekToXY(mirek) } }),
+            },
+            withBridge(bridge, () => setLightColorTemperature(light.id!, mirek)),
+            bridge,
+          );
+          await showToast({ style: Toast.Style.Success, title: `${lightName} temperature set to ${value.kelvin}K` });
+          break;
+        }
+      }
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Failed to update ${lightName}`,
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`Set ${lightName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Apply" icon={Icon.Checkmark} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={`Examples: ${examples.join(", ")}`} />
+      <Form.TextField
+        id="value"
+        title="Value"
+        placeholder="e.g., 75%, tomato or 2700K"
+        error={valueError}
+        onChange={() => setValueError(undefined)}
+      />
+    </Form>
+  );
+}
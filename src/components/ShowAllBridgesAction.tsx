@@ -0,0 +1,23 @@
+import { Action, Icon } from "@raycast/api";
+import type { ShowAllBridges } from "../hooks/useBridgeProfiles";
+
+/**
+ * Toggle between the active bridge and a merged list of every configured bridge.
+ * Renders nothing when only a single bridge is configured.
+ */
+export function ShowAllBridgesAction({ allBridges }: { allBridges: ShowAllBridges }) {
+  const { showAllBridges, canShowAllBridges, toggleShowAllBridges } = allBridges;
+
+  if (!canShowAllBridges) {
+    return null;
+  }
+
+  return (
+    <Action
+      icon={showAllBridges ? Icon.Network : Icon.List}
+      title={showAllBridges ? "Show Active Bridge Only" : "Show All Bridges"}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+      onAction={toggleShowAllBridges}
+    />
+  );
+}
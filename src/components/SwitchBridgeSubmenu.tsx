@@ -0,0 +1,43 @@
+import { ActionPanel, Action, Icon, showToast, Toast } from "@raycast/api";
+import type { BridgeProfiles } from "../hooks/useBridgeProfiles";
+
+/**
+ * Submenu to switch the active bridge profile.
+ * Renders nothing when only a single bridge is configured.
+ */
+export function SwitchBridgeSubmenu({ bridgeProfiles }: { bridgeProfiles: BridgeProfiles }) {
+  const { profiles, activeProfileName, defaultCredentials, switchProfile } = bridgeProfiles;
+
+  const optionCount = profiles.length + (defaultCredentials ? 1 : 0);
+  if (optionCount < 2) {
+    return null;
+  }
+
+  const handleSwitch = async (name: string | undefined, label: string) => {
+    switchProfile(name);
+    await showToast({
+      style: Toast.Style.Success,
+      title: `Switched to ${label}`,
+    });
+  };
+
+  return (
+    <ActionPanel.Submenu title="Switch Bridge" icon={Icon.Switch} shortcut={{ modifiers: ["cmd", "shift"], key: "b" }}>
+      {defaultCredentials && (
+        <Action
+          icon={activeProfileName === undefined ? Icon.CheckCircle : Icon.Circle}
+          title={`Default (${defaultCredentials.bridgeIP})`}
+          onAction={() => handleSwitch(undefined, "default bridge")}
+        />
+      )}
+      {profiles.map((profile) => (
+        <Action
+          key={profile.name}
+          icon={profile.name === activeProfileName ? Icon.CheckCircle : Icon.Circle}
+          title={`${profile.name} (${profile.bridgeIP})`}
+          onAction={() => handleSwitch(profile.name, profile.name)}
+        />
+      ))}
+    </ActionPanel.Submenu>
+  );
+}
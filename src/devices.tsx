@@ -0,0 +1,326 @@
+import { useState } from "react";
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  openExtensionPreferences,
+  Form,
+  Alert,
+  confirmAlert,
+  useNavigation,
+} from "@raycast/api";
+import { useDevicesWithRooms, findRoomForDevice } from "./hooks/useHue";
+import { identifyDevice, renameDevice, deleteDevice, isBridgeDevice } from "./api/devices";
+import type { DeviceGet as Device, RoomGet as Room } from "./api/generated/src/models";
+import { getCredentials } from "./api/client";
+import { SwitchBridgeSubmenu } from "./components/SwitchBridgeSubmenu";
+import { useBridgeProfiles, BridgeProfiles } from "./hooks/useBridgeProfiles";
+import { formatArchetype } from "./utils/archetype";
+
+export default function DevicesCommand() {
+  const credentials = getCredentials();
+
+  if (!credentials) {
+    return <NoBridgeConfigured />;
+  }
+
+  return <DevicesList />;
+}
+
+function NoBridgeConfigured() {
+  return (
+    <List>
+      <List.EmptyView
+        icon={Icon.ExclamationMark}
+        title="Hue Bridge Not Configured"
+        description="Please run 'Setup Hue Bridge' to connect to your Philips Hue system."
+        actions={
+          <ActionPanel>
+            <Action title="Open Extension Preferences" onAction={openExtensionPreferences} />
+          </ActionPanel>
+        }
+      />
+    </List>
+  );
+}
+
+function DevicesList() {
+  const { devices, rooms, isLoading, error, revalidate } = useDevicesWithRooms();
+  const bridgeProfiles = useBridgeProfiles();
+  const [isShowingDetail, setIsShowingDetail] = useState(false);
+
+  if (error) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to load devices",
+      message: error.message,
+    });
+  }
+
+  const getRoomName = (room?: Room) => room?.metadata?.name ?? "Unassigned";
+
+  // Group devices by room
+  const devicesByRoom = new Map<string, { room: Room | undefined; devices: Device[] }>();
+
+  for (const device of devices) {
+    const room = device.id ? findRoomForDevice(device.id, rooms) : undefined;
+    const roomKey = room?.id ?? "unassigned";
+
+    if (!devicesByRoom.has(roomKey)) {
+      devicesByRoom.set(roomKey, { room, devices: [] });
+    }
+    devicesByRoom.get(roomKey)!.devices.push(device);
+  }
+
+  // Sort rooms by name, with unassigned at the end
+  const sortedRooms = Array.from(devicesByRoom.entries()).sort((a, b) => {
+    if (a[0] === "unassigned") return 1;
+    if (b[0] === "unassigned") return -1;
+    return getRoomName(a[1].room).localeCompare(getRoomName(b[1].room));
+  });
+
+  return (
+    <List isLoading={isLoading} isShowingDetail={isShowingDetail} searchBarPlaceholder="Search devices...">
+      {sortedRooms.map(([roomKey, { room, devices: roomDevices }]) => (
+        <List.Section key={roomKey} title={getRoomName(room)} subtitle={`${roomDevices.length} devices`}>
+          {roomDevices
+            .sort((a, b) => (a.metadata?.name ?? "").localeCompare(b.metadata?.name ?? ""))
+            .map((device) => (
+              <DeviceListItem
+                key={device.id}
+                device={device}
+                roomName={getRoomName(room)}
+                isShowingDetail={isShowingDetail}
+                onToggleDetail={() => setIsShowingDetail((value) => !value)}
+                revalidate={revalidate}
+                bridgeProfiles={bridgeProfiles}
+              />
+            ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
+
+function DeviceListItem({
+  device,
+  roomName,
+  isShowingDetail,
+  onToggleDetail,
+  revalidate,
+  bridgeProfiles,
+}: {
+  device: Device;
+  roomName: string;
+  isShowingDetail: boolean;
+  onToggleDetail: () => void;
+  revalidate: () => Promise<void>;
+  bridgeProfiles: BridgeProfiles;
+}) {
+  const deviceName = device.metadata?.name ?? "Unknown Device";
+  const productData = device.product_data;
+  const isBridge = isBridgeDevice(device);
+
+  const accessories: List.Item.Accessory[] = [];
+
+  if (productData?.model_id) {
+    accessories.push({ tag: productData.model_id, tooltip: "Model" });
+  }
+  if (productData?.software_version) {
+    accessories.push({ text: `v${productData.software_version}`, tooltip: "Software version" });
+  }
+
+  const handleIdentify = async () => {
+    if (!device.id) return;
+    try {
+      await identifyDevice(device.id);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Identifying ${deviceName}`,
+        message: "The device should blink briefly",
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to identify device",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!device.id) return;
+
+    const confirmed = await confirmAlert({
+      title: `Remove "${deviceName}" from the bridge?`,
+      message:
+        "The device will be removed from all rooms, zones and scenes. You will need to pair it again with the Hue app to use it.",
+      icon: Icon.Trash,
+      primaryAction: { title: "Remove", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteDevice(device.id);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${deviceName} removed from bridge`,
+      });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to remove device",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <List.Item
+      icon={isBridge ? Icon.Network : Icon.LightBulb}
+      title={deviceName}
+      subtitle={isShowingDetail ? undefined : productData?.product_name}
+      keywords={[roomName, productData?.product_name ?? "", productData?.model_id ?? ""]}
+      accessories={isShowingDetail ? undefined : accessories}
+      detail={<DeviceDetail device={device} roomName={roomName} />}
+      actions={
+        <ActionPanel>
+          <ActionPanel.Section>
+            <Action
+              icon={Icon.Sidebar}
+              title={isShowingDetail ? "Hide Details" : "Show Details"}
+              shortcut={{ modifiers: ["cmd"], key: "d" }}
+              onAction={onToggleDetail}
+            />
+            <Action
+              icon={Icon.Eye}
+              title="Identify"
+              shortcut={{ modifiers: ["cmd"], key: "i" }}
+              onAction={handleIdentify}
+            />
+            <Action.Push
+              icon={Icon.Pencil}
+              title="Rename Device"
+              shortcut={{ modifiers: ["cmd"], key: "e" }}
+              target={<RenameDeviceForm device={device} revalidate={revalidate} />}
+            />
+          </ActionPanel.Section>
+
+          <ActionPanel.Section>
+            <Action.CopyToClipboard title="Copy Device ID" content={device.id ?? ""} />
+            {productData?.model_id && <Action.CopyToClipboard title="Copy Model ID" content={productData.model_id} />}
+          </ActionPanel.Section>
+
+          {!isBridge && (
+            <ActionPanel.Section>
+              <Action
+                icon={Icon.Trash}
+                title="Remove from Bridge"
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                onAction={handleRemove}
+              />
+            </ActionPanel.Section>
+          )}
+
+          <ActionPanel.Section>
+            <Action
+              icon={Icon.ArrowClockwise}
+              title="Refresh"
+              shortcut={{ modifiers: ["cmd"], key: "r" }}
+              onAction={revalidate}
+            />
+            <SwitchBridgeSubmenu bridgeProfiles={bridgeProfiles} />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+function DeviceDetail({ device, roomName }: { device: Device; roomName: string }) {
+  const productData = device.product_data;
+
+  return (
+    <List.Item.Detail
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.Label title="Name" text={device.metadata?.name ?? "Unknown Device"} />
+          <List.Item.Detail.Metadata.Label title="Room" text={roomName} />
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label title="Product" text={productData?.product_name ?? "Unknown"} />
+          <List.Item.Detail.Metadata.Label title="Model" text={productData?.model_id ?? "Unknown"} />
+          <List.Item.Detail.Metadata.Label title="Manufacturer" text={productData?.manufacturer_name ?? "Unknown"} />
+          <List.Item.Detail.Metadata.Label title="Software Version" text={productData?.software_version ?? "Unknown"} />
+          <List.Item.Detail.Metadata.Label
+            title="Archetype"
+            text={formatArchetype(productData?.product_archetype ?? "unknown")}
+          />
+          <List.Item.Detail.Metadata.Label title="Certified" text={productData?.certified ? "Yes" : "No"} />
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.TagList title="Services">
+            {(device.services ?? []).map((service) => (
+              <List.Item.Detail.Metadata.TagList.Item
+                key={service.rid}
+                text={formatArchetype(service.rtype ?? "unknown")}
+              />
+            ))}
+          </List.Item.Detail.Metadata.TagList>
+          <List.Item.Detail.Metadata.Label title="Device ID" text={device.id ?? ""} />
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
+
+function RenameDeviceForm({ device, revalidate }: { device: Device; revalidate: () => Promise<void> }) {
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  const handleSubmit = async (values: { name: string }) => {
+    const name = values.name.trim();
+    if (!name) {
+      setNameError("Name is required");
+      return;
+    }
+
+    try {
+      await renameDevice(device, name);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Device renamed to ${name}`,
+      });
+      await revalidate();
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to rename device",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`Rename ${device.metadata?.name ?? "Device"}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Rename Device" icon={Icon.Check} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        defaultValue={device.metadata?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import { useCachedState } from "@raycast/utils";
+import { getBridgeProfiles, getActiveBridgeProfileName, setActiveBridgeProfile, BridgeProfile } from "../api/profiles";
+import { getCredentials, getDefaultCredentials, getConfiguredBridges, BridgeConnection } from "../api/client";
+
+// Bumped whenever the active profile changes so every subscribed component re-renders
+const PROFILE_CHANGE_KEY = "bridge-profile-changed";
+
+// Whether lists merge resources from every configured bridge
+const SHOW_ALL_BRIDGES_KEY = "show-all-bridges";
+
+/**
+ * Get the IP of the active bridge.
+ * Components using this hook re-render when the active bridge profile changes.
+ */
+export function useActiveBridgeIP(): string | undefined {
+  useCachedState<number>(PROFILE_CHANGE_KEY, 0);
+  return getCredentials()?.bridgeIP;
+}
+
+/**
+ * Get every configured bridge.
+ * Components using this hook re-render when bridge profiles change.
+ */
+export function useConfiguredBridges(): BridgeConnection[] {
+  const [profileChange] = useCachedState<number>(PROFILE_CHANGE_KEY, 0);
+  // Reading the config files is blocking, so only do it when the profiles changed
+  return useMemo(() => getConfiguredBridges(), [profileChange]);
+}
+
+export interface ShowAllBridges {
+  showAllBridges: boolean;
+  canShowAllBridges: boolean;
+  toggleShowAllBridges: () => void;
+}
+
+/**
+ * Whether lists should merge resources from all bridges.
+ * Only possible when more than one bridge is configured.
+ */
+export function useShowAllBridges(): ShowAllBridges {
+  const bridges = useConfiguredBridges();
+  const [showAllBridges, setShowAllBridges] = useCachedState<boolean>(SHOW_ALL_BRIDGES_KEY, false);
+  const canShowAllBridges = bridges.length > 1;
+
+  return {
+    showAllBridges: showAllBridges && canShowAllBridges,
+    canShowAllBridges,
+    toggleShowAllBridges: () => setShowAllBridges(!showAllBridges),
+  };
+}
+
+export interface BridgeProfiles {
+  profiles: BridgeProfile[];
+  activeProfileName: string | undefined;
+  defaultCredentials: { bridgeIP: string; applicationKey: string } | null;
+  switchProfile: (name: string | undefined) => void;
+  notifyProfilesChanged: () => void;
+}
+
+/**
+ * Get the bridge profiles and the active one.
+ * Call it once per command and pass the result down, rather than in every list item.
+ */
+export function useBridgeProfiles(): BridgeProfiles {
+  const [profileChange, setProfileChange] = useCachedState<number>(PROFILE_CHANGE_KEY, 0);
+  const stored = useMemo(
+    () => ({
+      profiles: getBridgeProfiles(),
+      activeProfileName: getActiveBridgeProfileName(),
+      defaultCredentials: getDefaultCredentials(),
+    }),
+    [profileChange],
+  );
+
+  const notifyProfilesChanged = () => setProfileChange(Date.now());
+
+  const switchProfile = (name: string | undefined) => {
+    setActiveBridgeProfile(name);
+    notifyProfilesChanged();
+  };
+
+  return {
+    ...stored,
+    switchProfile,
+    notifyProfilesChanged,
+  };
+}
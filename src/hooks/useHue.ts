@@ -1,114 +1,296 @@
-import { useCachedPromise } from "@raycast/utils";
-import { getLights } from "../api/lights";
-import { getRooms, getGroupedLights } from "../api/rooms";
-import { getScenes } from "../api/scenes";
+import { useEffect, useMemo, useRef } from "react";
+import { showToast, Toast } from "@raycast/api";
+import { useCachedPromise, MutatePromise } from "@raycast/utils";
 import type {
   LightGet as Light,
   RoomGet as Room,
   GroupedLightGet as GroupedLight,
   SceneGet as Scene,
+  SmartSceneGet as SmartScene,
+  DeviceGet as Device,
+  DevicePowerGet as DevicePower,
+  MotionGet as Motion,
+  LightLevelGet as LightLevel,
+  TemperatureGet as Temperature,
+  BridgeGet as Bridge,
+  BridgeHomeGet as BridgeHome,
+  ResourceGet as Resource,
 } from "../api/generated/src/models";
-import { getCredentials } from "../api/client";
-
-export function useLights() {
-  return useCachedPromise(
-    async () => {
-      const credentials = getCredentials();
-      if (!credentials) {
-        return [];
-      }
-      return getLights();
-    },
-    [],
-    {
-      keepPreviousData: true,
-    },
-  );
-}
+import {
+  LightGetFromJSON,
+  RoomGetFromJSON,
+  GroupedLightGetFromJSON,
+  SceneGetFromJSON,
+  SmartSceneGetFromJSON,
+  DeviceGetFromJSON,
+  DevicePowerGetFromJSON,
+  MotionGetFromJSON,
+  LightLevelGetFromJSON,
+  TemperatureGetFromJSON,
+  BridgeGetFromJSON,
+  BridgeHomeGetFromJSON,
+  ResourceGetFromJSON,
+} from "../api/generated/src/models";
+import { withBridge } from "../api/configuration";
+import { subscribeToEvents, mergeProperties, HueEvent } from "../api/events";
+import {
+  getResourceSnapshot,
+  getSnapshotResources,
+  applySnapshotEvents,
+  updateSnapshotResource,
+  ResourceSnapshot,
+} from "../api/resources";
+import type { BridgeConnection } from "../api/client";
+import { useActiveBridgeIP, useConfiguredBridges } from "./useBridgeProfiles";
 
-export function useRooms() {
-  return useCachedPromise(
-    async () => {
-      const credentials = getCredentials();
-      if (!credentials) {
-        return [];
-      }
-      return getRooms();
-    },
-    [],
-    {
-      keepPreviousData: true,
-    },
-  );
+/**
+ * Keep the data of a hook current by applying the bridge's events to it,
+ * instead of waiting for the next revalidation.
+ * The data is revalidated when the stream reconnects, as the events sent while it was down are lost.
+ */
+function useLiveUpdates<T>(
+  bridgeIP: string | undefined,
+  mutate: MutatePromise<T | undefined>,
+  revalidate: () => void,
+  apply: (data: T, events: HueEvent[]) => T,
+) {
+  const latest = useRef({ mutate, revalidate, apply });
+  latest.current = { mutate, revalidate, apply };
+
+  useEffect(() => {
+    if (!bridgeIP) return;
+
+    return subscribeToEvents(
+      (events) => {
+        void latest.current.mutate(undefined, {
+          optimisticUpdate: (data) => (data ? latest.current.apply(data, events) : data),
+          rollbackOnError: false,
+          shouldRevalidateAfter: false,
+        });
+      },
+      {
+        onError: (error) => {
+          showToast({ style: Toast.Style.Failure, title: "Live updates unavailable", message: error.message });
+        },
+        onReconnect: () => latest.current.revalidate(),
+      },
+    );
+  }, [bridgeIP]);
 }
 
-export function useGroupedLights() {
-  return useCachedPromise(
-    async () => {
-      const credentials = getCredentials();
-      if (!credentials) {
-        return [];
+// Every resource of the active bridge, fetched with a single request and kept current from the event stream
+export function useResourceSnapshot() {
+  const activeBridgeIP = useActiveBridgeIP();
+  const result = useCachedPromise(
+    async (bridgeIP: string | undefined): Promise<ResourceSnapshot> => {
+      if (!bridgeIP) {
+        return {};
       }
-      return getGroupedLights();
+      return getResourceSnapshot();
     },
-    [],
+    [activeBridgeIP],
     {
       keepPreviousData: true,
     },
   );
+  useLiveUpdates(activeBridgeIP, result.mutate, result.revalidate, applySnapshotEvents);
+  return result;
 }
 
-export function useScenes() {
-  return useCachedPromise(
-    async () => {
-      const credentials = getCredentials();
-      if (!credentials) {
-        return [];
-      }
-      return getScenes();
-    },
-    [],
-    {
-      keepPreviousData: true,
+/**
+ * Apply the expected result of an update to a resource while the request is in flight.
+ * The change is rolled back and the request's error rethrown if the bridge rejects it.
+ */
+export type UpdateResource = (
+  type: string,
+  id: string,
+  patch: Record<string, unknown>,
+  update: Promise<unknown>,
+  // Bridge the resource belongs to when listing all bridges
+  bridge?: BridgeConnection,
+) => Promise<void>;
+
+// Optimistically apply changes to several resources while a single update (such as a batch update) runs
+export type UpdateResources = (
+  changes: Array<{ type: string; id: string; patch: Record<string, unknown> }>,
+  update: Promise<unknown>,
+  bridge?: BridgeConnection,
+) => Promise<void>;
+
+/**
+ * Derive resources from the snapshot of the active bridge.
+ * The derived value is only recomputed when the snapshot changes.
+ */
+function useSnapshotResources<T>(derive: (snapshot: ResourceSnapshot | undefined) => T): T & {
+  isLoading: boolean;
+  error: Error | undefined;
+  revalidate: () => Promise<void>;
+  updateResource: UpdateResource;
+  updateResources: UpdateResources;
+} {
+  const { data, isLoading, error, revalidate, mutate } = useResourceSnapshot();
+  const resources = useMemo(() => derive(data), [data]);
+
+  const updateResource: UpdateResource = async (type, id, patch, update) => {
+    await mutate(update, {
+      optimisticUpdate: (snapshot) => snapshot && updateSnapshotResource(snapshot, type, id, patch),
+    });
+  };
+
+  const updateResources: UpdateResources = async (changes, update) => {
+    await mutate(update, {
+      optimisticUpdate: (snapshot) =>
+        snapshot &&
+        changes.reduce((result, { type, id, patch }) => updateSnapshotResource(result, type, id, patch), snapshot),
+    });
+  };
+
+  return {
+    ...resources,
+    isLoading,
+    error,
+    revalidate: async () => {
+      await revalidate();
     },
-  );
+    updateResource,
+    updateResources,
+  };
 }
 
 // Combined hook for lights with room information
 export function useLightsWithRooms(): {
   lights: Light[];
   rooms: Room[];
+  zones: Room[];
   groupedLights: GroupedLight[];
   scenes: Scene[];
   isLoading: boolean;
   error: Error | undefined;
   revalidate: () => Promise<void>;
+  updateResource: UpdateResource;
+  updateResources: UpdateResources;
 } {
-  const lightsResult = useLights();
-  const roomsResult = useRooms();
-  const groupedLightsResult = useGroupedLights();
-  const scenesResult = useScenes();
-
-  const revalidate = async () => {
-    // Revalidate sequentially with small delays to avoid rate limiting (HTTP 429)
-    await lightsResult.revalidate();
-    await new Promise((resolve) => setTimeout(resolve, 150));
-    await roomsResult.revalidate();
-    await new Promise((resolve) => setTimeout(resolve, 150));
-    await groupedLightsResult.revalidate();
-    await new Promise((resolve) => setTimeout(resolve, 150));
-    await scenesResult.revalidate();
-  };
+  return useSnapshotResources((snapshot) => ({
+    lights: getSnapshotResources(snapshot, "light", LightGetFromJSON),
+    rooms: getSnapshotResources(snapshot, "room", RoomGetFromJSON),
+    zones: getSnapshotResources(snapshot, "zone", RoomGetFromJSON),
+    groupedLights: getSnapshotResources(snapshot, "grouped_light", GroupedLightGetFromJSON),
+    scenes: getSnapshotResources(snapshot, "scene", SceneGetFromJSON),
+  }));
+}
+
+export interface BridgeResources {
+  bridge: BridgeConnection;
+  lights: Light[];
+  rooms: Room[];
+  zones: Room[];
+  groupedLights: GroupedLight[];
+  scenes: Scene[];
+  error?: Error;
+}
+
+// Lists of BridgeResources holding each resource type
+const BRIDGE_RESOURCE_LISTS: Record<string, "lights" | "rooms" | "groupedLights" | "scenes"> = {
+  light: "lights",
+  room: "rooms",
+  grouped_light: "groupedLights",
+  scene: "scenes",
+};
+
+// Merge changed properties into one resource of a bridge
+function updateBridgeResource(
+  resources: BridgeResources,
+  type: string,
+  id: string,
+  patch: Record<string, unknown>,
+): BridgeResources {
+  const list = BRIDGE_RESOURCE_LISTS[type];
+  if (!list) {
+    return resources;
+  }
+
+  const items = resources[list] as Array<{ id?: string }>;
+  return { ...resources, [list]: items.map((item) => (item.id === id ? mergeProperties(item, patch) : item)) };
+}
+
+// Combined hook for lights and rooms from every configured bridge
+export function useAllBridgesLightsWithRooms(): {
+  bridges: BridgeResources[];
+  isLoading: boolean;
+  error: Error | undefined;
+  revalidate: () => Promise<void>;
+  updateResource: UpdateResource;
+  updateResources: UpdateResources;
+} {
+  const configuredBridges = useConfiguredBridges();
+  const { data, isLoading, error, revalidate, mutate } = useCachedPromise(
+    async (bridges: BridgeConnection[]) => {
+      const results: BridgeResources[] = [];
+
+      // Bridges are fetched one after another so a slow or offline bridge only affects its own section
+      for (const bridge of bridges) {
+        try {
+          const snapshot = await withBridge(bridge, () => getResourceSnapshot());
+          results.push({
+            bridge,
+            lights: getSnapshotResources(snapshot, "light", LightGetFromJSON),
+            rooms: getSnapshotResources(snapshot, "room", RoomGetFromJSON),
+            zones: getSnapshotResources(snapshot, "zone", RoomGetFromJSON),
+            groupedLights: getSnapshotResources(snapshot, "grouped_light", GroupedLightGetFromJSON),
+            scenes: getSnapshotResources(snapshot, "scene", SceneGetFromJSON),
+          });
+        } catch (error) {
+          results.push({
+            bridge,
+            lights: [],
+            rooms: [],
+            zones: [],
+            groupedLights: [],
+            scenes: [],
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+        }
+      }
+
+      return results;
+    },
+    [configuredBridges],
+    {
+      keepPreviousData: true,
+    },
+  );
 
   return {
-    lights: lightsResult.data ?? [],
-    rooms: roomsResult.data ?? [],
-    groupedLights: groupedLightsResult.data ?? [],
-    scenes: scenesResult.data ?? [],
-    isLoading:
-      lightsResult.isLoading || roomsResult.isLoading || groupedLightsResult.isLoading || scenesResult.isLoading,
-    error: lightsResult.error || roomsResult.error || groupedLightsResult.error || scenesResult.error,
-    revalidate,
+    bridges: data ?? [],
+    isLoading,
+    error,
+    revalidate: async () => {
+      await revalidate();
+    },
+    // Only the section of the bridge the change was sent to is updated
+    updateResource: async (type, id, patch, update, bridge) => {
+      await mutate(update, {
+        optimisticUpdate: (bridges) =>
+          bridges?.map((resources) =>
+            resources.bridge.bridgeIP === bridge?.bridgeIP
+              ? updateBridgeResource(resources, type, id, patch)
+              : resources,
+          ),
+      });
+    },
+    updateResources: async (changes, update, bridge) => {
+      await mutate(update, {
+        optimisticUpdate: (bridges) =>
+          bridges?.map((resources) =>
+            resources.bridge.bridgeIP === bridge?.bridgeIP
+              ? changes.reduce(
+                  (result, { type, id, patch }) => updateBridgeResource(result, type, id, patch),
+                  resources,
+                )
+              : resources,
+          ),
+      });
+    },
   };
 }
 
@@ -120,23 +302,115 @@ export function useScenesWithRooms(): {
   error: Error | undefined;
   revalidate: () => Promise<void>;
 } {
-  const scenesResult = useScenes();
-  const roomsResult = useRooms();
-
-  const revalidate = async () => {
-    // Revalidate sequentially with small delay to avoid rate limiting (HTTP 429)
-    await scenesResult.revalidate();
-    await new Promise((resolve) => setTimeout(resolve, 150));
-    await roomsResult.revalidate();
-  };
+  return useSnapshotResources((snapshot) => ({
+    scenes: getSnapshotResources(snapshot, "scene", SceneGetFromJSON),
+    rooms: getSnapshotResources(snapshot, "room", RoomGetFromJSON),
+  }));
+}
 
-  return {
-    scenes: scenesResult.data ?? [],
-    rooms: roomsResult.data ?? [],
-    isLoading: scenesResult.isLoading || roomsResult.isLoading,
-    error: scenesResult.error || roomsResult.error,
-    revalidate,
-  };
+// Combined hook for zones with their grouped lights and scenes
+export function useZonesWithGroupedLights(): {
+  zones: Room[];
+  groupedLights: GroupedLight[];
+  scenes: Scene[];
+  isLoading: boolean;
+  error: Error | undefined;
+  revalidate: () => Promise<void>;
+} {
+  return useSnapshotResources((snapshot) => ({
+    zones: getSnapshotResources(snapshot, "zone", RoomGetFromJSON),
+    groupedLights: getSnapshotResources(snapshot, "grouped_light", GroupedLightGetFromJSON),
+    scenes: getSnapshotResources(snapshot, "scene", SceneGetFromJSON),
+  }));
+}
+
+// Combined hook for smart scenes with the rooms, zones and scenes they reference
+export function useSmartScenesWithGroups(): {
+  smartScenes: SmartScene[];
+  scenes: Scene[];
+  rooms: Room[];
+  zones: Room[];
+  isLoading: boolean;
+  error: Error | undefined;
+  revalidate: () => Promise<void>;
+} {
+  return useSnapshotResources((snapshot) => ({
+    smartScenes: getSnapshotResources(snapshot, "smart_scene", SmartSceneGetFromJSON),
+    scenes: getSnapshotResources(snapshot, "scene", SceneGetFromJSON),
+    rooms: getSnapshotResources(snapshot, "room", RoomGetFromJSON),
+    zones: getSnapshotResources(snapshot, "zone", RoomGetFromJSON),
+  }));
+}
+
+// Combined hook for sensors with their owning devices and rooms
+export function useSensorsWithDevices(): {
+  motionSensors: Motion[];
+  lightLevels: LightLevel[];
+  temperatures: Temperature[];
+  devices: Device[];
+  rooms: Room[];
+  isLoading: boolean;
+  error: Error | undefined;
+  revalidate: () => Promise<void>;
+} {
+  return useSnapshotResources((snapshot) => ({
+    motionSensors: getSnapshotResources(snapshot, "motion", MotionGetFromJSON),
+    lightLevels: getSnapshotResources(snapshot, "light_level", LightLevelGetFromJSON),
+    temperatures: getSnapshotResources(snapshot, "temperature", TemperatureGetFromJSON),
+    devices: getSnapshotResources(snapshot, "device", DeviceGetFromJSON),
+    rooms: getSnapshotResources(snapshot, "room", RoomGetFromJSON),
+  }));
+}
+
+// Combined hook for devices with room information
+export function useDevicesWithRooms(): {
+  devices: Device[];
+  rooms: Room[];
+  isLoading: boolean;
+  error: Error | undefined;
+  revalidate: () => Promise<void>;
+} {
+  return useSnapshotResources((snapshot) => ({
+    devices: getSnapshotResources(snapshot, "device", DeviceGetFromJSON),
+    rooms: getSnapshotResources(snapshot, "room", RoomGetFromJSON),
+  }));
+}
+
+// Combined hook for battery powered devices
+export function useDevicePowersWithDevices(): {
+  devicePowers: DevicePower[];
+  devices: Device[];
+  rooms: Room[];
+  isLoading: boolean;
+  error: Error | undefined;
+  revalidate: () => Promise<void>;
+} {
+  return useSnapshotResources((snapshot) => ({
+    devicePowers: getSnapshotResources(snapshot, "device_power", DevicePowerGetFromJSON),
+    devices: getSnapshotResources(snapshot, "device", DeviceGetFromJSON),
+    rooms: getSnapshotResources(snapshot, "room", RoomGetFromJSON),
+  }));
+}
+
+// Combined hook for bridge details and its resources
+export function useBridgeInfo(): {
+  bridge: Bridge | null;
+  bridgeHomes: BridgeHome[];
+  resources: Resource[];
+  isLoading: boolean;
+  error: Error | undefined;
+  revalidate: () => Promise<void>;
+} {
+  return useSnapshotResources((snapshot) => ({
+    bridge: getSnapshotResources(snapshot, "bridge", BridgeGetFromJSON)[0] ?? null,
+    bridgeHomes: getSnapshotResources(snapshot, "bridge_home", BridgeHomeGetFromJSON),
+    resources: Object.keys(snapshot ?? {}).flatMap((type) => getSnapshotResources(snapshot, type, ResourceGetFromJSON)),
+  }));
+}
+
+// Helper to find room for a device
+export function findRoomForDevice(deviceId: string, rooms: Room[]): Room | undefined {
+  return rooms.find((room) => room.children?.some((child) => child.rid === deviceId));
 }
 
 // Helper to find room for a light
@@ -146,7 +420,13 @@ export function findRoomForLight(light: Light, rooms: Room[]): Room | undefined
   return rooms.find((room) => room.children?.some((child) => child.rid === deviceId));
 }
 
-// Helper to find grouped light for a room
+// Helper to find the lights of a room (children are devices) or zone (children are lights)
+export function findLightsInGroup(group: Room, lights: Light[]): Light[] {
+  const childIds = new Set(group.children?.map((child) => child.rid) ?? []);
+  return lights.filter((light) => childIds.has(light.id) || childIds.has(light.owner?.rid));
+}
+
+// Helper to find grouped light for a room (or zone, which shares the same shape)
 export function findGroupedLightForRoom(room: Room, groupedLights: GroupedLight[]): GroupedLight | undefined {
   const groupedLightRef = room.services?.find((s) => s.rtype === "grouped_light");
   if (!groupedLightRef) return undefined;
@@ -1,16 +1,39 @@
+import { useState } from "react";
 import { List, ActionPanel, Action, Icon, showToast, Toast, Color, openExtensionPreferences } from "@raycast/api";
-import { useLightsWithRooms, findRoomForLight } from "./hooks/useHue";
-import { toggleLight, setLightBrightness, setLightColorTemperature, setLightColor } from "./api/lights";
-import type { LightGet as Light, RoomGet as Room } from "./api/generated/src/models";
-import { getCredentials } from "./api/client";
-import { xyToHex, mirekToHex, hexToXY, PRESET_COLORS, PRESET_TEMPERATURES } from "./utils/color";
-
-function formatArchetype(archetype: string): string {
-  return archetype
-    .split("_")
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(" ");
-}
+import {
+  useLightsWithRooms,
+  useAllBridgesLightsWithRooms,
+  findRoomForLight,
+  UpdateResource,
+  UpdateResources,
+} from "./hooks/useHue";
+import { useShowAllBridges, useBridgeProfiles, ShowAllBridges, BridgeProfiles } from "./hooks/useBridgeProfiles";
+import {
+  toggleLight,
+  setLightBrightness,
+  setLightColorTemperature,
+  setLightColor,
+  stepLightBrightness,
+  stepLightColorTemperature,
+  updateLights,
+} from "./api/lights";
+import { withBridge } from "./api/configuration";
+import type { LightGet as Light, LightPut, RoomGet as Room } from "./api/generated/src/models";
+import { getCredentials, BridgeConnection } from "./api/client";
+import { SwitchBridgeSubmenu } from "./components/SwitchBridgeSubmenu";
+import { ShowAllBridgesAction } from "./components/ShowAllBridgesAction";
+import { SetLightValueForm } from "./components/SetLightValueForm";
+import {
+  xyToHex,
+  mirekToHex,
+  hexToXY,
+  PRESET_COLORS,
+  PRESET_TEMPERATURES,
+  mirekToXY,
+  BRIGHTNESS_STEP,
+  MIREK_STEP,
+} from "./utils/color";
+import { formatArchetype } from "./utils/archetype";
 
 export default function LightsCommand() {
   const credentials = getCredentials();
@@ -39,8 +62,68 @@ function NoBridgeConfigured() {
   );
 }
 
+// A light marked for bulk actions, with the bridge it belongs to when listing all bridges
+interface SelectedLight {
+  light: Light;
+  bridge?: BridgeConnection;
+}
+
+// Lights of one bridge with the rooms and zones they make up
+interface BridgeLights {
+  bridge?: BridgeConnection;
+  lights: Light[];
+  groups: Room[];
+}
+
+interface LightSelection {
+  selectedLights: SelectedLight[];
+  getBridgeLights: (bridge?: BridgeConnection) => BridgeLights | undefined;
+  isSelected: (light: Light, bridge?: BridgeConnection) => boolean;
+  toggleSelected: (light: Light, bridge?: BridgeConnection) => void;
+  clearSelection: () => void;
+}
+
+function getSelectionKey(light: Light, bridge?: BridgeConnection): string {
+  return `${bridge?.bridgeIP ?? "active"}|${light.id}`;
+}
+
+// Track the selected lights among the listed ones; lights that disappear are dropped from the selection
+function useLightSelection(listed: BridgeLights[]): LightSelection {
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const listedLights = listed.flatMap(({ bridge, lights }) => lights.map((light) => ({ light, bridge })));
+
+  return {
+    selectedLights: listedLights.filter(({ light, bridge }) => selectedKeys.includes(getSelectionKey(light, bridge))),
+    getBridgeLights: (bridge) => listed.find((entry) => entry.bridge?.bridgeIP === bridge?.bridgeIP),
+    isSelected: (light, bridge) => selectedKeys.includes(getSelectionKey(light, bridge)),
+    toggleSelected: (light, bridge) => {
+      const key = getSelectionKey(light, bridge);
+      setSelectedKeys((keys) => (keys.includes(key) ? keys.filter((k) => k !== key) : [...keys, key]));
+    },
+    clearSelection: () => setSelectedKeys([]),
+  };
+}
+
 function LightsList() {
-  const { lights, rooms, isLoading, error, revalidate } = useLightsWithRooms();
+  const allBridges = useShowAllBridges();
+  const bridgeProfiles = useBridgeProfiles();
+
+  return allBridges.showAllBridges ? (
+    <AllBridgesLightsList allBridges={allBridges} bridgeProfiles={bridgeProfiles} />
+  ) : (
+    <ActiveBridgeLightsList allBridges={allBridges} bridgeProfiles={bridgeProfiles} />
+  );
+}
+
+function ActiveBridgeLightsList({
+  allBridges,
+  bridgeProfiles,
+}: {
+  allBridges: ShowAllBridges;
+  bridgeProfiles: BridgeProfiles;
+}) {
+  const { lights, rooms, zones, isLoading, error, revalidate, updateResource, updateResources } = useLightsWithRooms();
+  const selection = useLightSelection([{ lights, groups: [...rooms, ...zones] }]);
 
   if (error) {
     showToast({
@@ -50,6 +133,100 @@ function LightsList() {
     });
   }
 
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search lights..." navigationTitle={getSelectionTitle(selection)}>
+      <LightSections
+        lights={lights}
+        rooms={rooms}
+        selection={selection}
+        revalidate={revalidate}
+        updateResource={updateResource}
+        updateResources={updateResources}
+        allBridges={allBridges}
+        bridgeProfiles={bridgeProfiles}
+      />
+    </List>
+  );
+}
+
+function AllBridgesLightsList({
+  allBridges,
+  bridgeProfiles,
+}: {
+  allBridges: ShowAllBridges;
+  bridgeProfiles: BridgeProfiles;
+}) {
+  const { bridges, isLoading, error, revalidate, updateResource, updateResources } = useAllBridgesLightsWithRooms();
+  const selection = useLightSelection(
+    bridges.map(({ bridge, lights, rooms, zones }) => ({ bridge, lights, groups: [...rooms, ...zones] })),
+  );
+  const failedBridges = bridges.filter((resources) => resources.error);
+
+  if (error) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to load lights",
+      message: error.message,
+    });
+  } else if (failedBridges.length > 0) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: `Failed to load lights from ${failedBridges.length === 1 ? "1 bridge" : `${failedBridges.length} bridges`}`,
+      message: failedBridges.map((resources) => `${resources.bridge.name}: ${resources.error?.message}`).join("\n"),
+    });
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search lights on all bridges..."
+      navigationTitle={getSelectionTitle(selection)}
+    >
+      {bridges.map(({ bridge, lights, rooms }) => (
+        <LightSections
+          key={bridge.bridgeIP}
+          bridge={bridge}
+          lights={lights}
+          rooms={rooms}
+          selection={selection}
+          revalidate={revalidate}
+          updateResource={updateResource}
+          updateResources={updateResources}
+          allBridges={allBridges}
+          bridgeProfiles={bridgeProfiles}
+        />
+      ))}
+    </List>
+  );
+}
+
+function getSelectionTitle(selection: LightSelection): string | undefined {
+  const count = selection.selectedLights.length;
+  return count > 0 ? `${count} ${count === 1 ? "Light" : "Lights"} Selected` : undefined;
+}
+
+// Lights of a single bridge, grouped by room
+function LightSections({
+  lights,
+  rooms,
+  bridge,
+  selection,
+  revalidate,
+  updateResource,
+  updateResources,
+  allBridges,
+  bridgeProfiles,
+}: {
+  lights: Light[];
+  rooms: Room[];
+  bridge?: BridgeConnection;
+  selection: LightSelection;
+  revalidate: () => Promise<void>;
+  updateResource: UpdateResource;
+  updateResources: UpdateResources;
+  allBridges: ShowAllBridges;
+  bridgeProfiles: BridgeProfiles;
+}) {
   const getRoomName = (room?: Room) => room?.metadata?.name ?? "Unassigned";
 
   // Group lights by room
@@ -75,26 +252,54 @@ function LightsList() {
   });
 
   return (
-    <List isLoading={isLoading} searchBarPlaceholder="Search lights...">
+    <>
       {sortedRooms.map(([roomKey, { room, lights: roomLights }]) => (
-        <List.Section key={roomKey} title={getRoomName(room)} subtitle={`${roomLights.length} lights`}>
+        <List.Section
+          key={`${bridge?.bridgeIP ?? "active"}-${roomKey}`}
+          title={getRoomName(room)}
+          subtitle={bridge ? `${bridge.name} • ${roomLights.length} lights` : `${roomLights.length} lights`}
+        >
           {roomLights.map((light) => (
-            <LightListItem key={light.id} light={light} roomName={getRoomName(room)} revalidate={revalidate} />
+            <LightListItem
+              key={light.id}
+              light={light}
+              roomName={getRoomName(room)}
+              bridge={bridge}
+              selection={selection}
+              revalidate={revalidate}
+              updateResource={updateResource}
+              updateResources={updateResources}
+              allBridges={allBridges}
+              bridgeProfiles={bridgeProfiles}
+            />
           ))}
         </List.Section>
       ))}
-    </List>
+    </>
   );
 }
 
 function LightListItem({
   light,
   roomName,
+  bridge,
+  selection,
   revalidate,
+  updateResource,
+  updateResources,
+  allBridges,
+  bridgeProfiles,
 }: {
   light: Light;
   roomName: string;
+  // Set when listing all bridges; actions are sent to this bridge instead of the active one
+  bridge?: BridgeConnection;
+  selection: LightSelection;
   revalidate: () => Promise<void>;
+  updateResource: UpdateResource;
+  updateResources: UpdateResources;
+  allBridges: ShowAllBridges;
+  bridgeProfiles: BridgeProfiles;
 }) {
   const isOn = light.on?.on ?? false;
   const brightness = light.dimming?.brightness ?? 100;
@@ -109,8 +314,17 @@ function LightListItem({
     iconTintColor = mirekToHex(light.color_temperature.mirek);
   }
 
+  const isSelected = selection.isSelected(light, bridge);
   const accessories: List.Item.Accessory[] = [];
 
+  if (isSelected) {
+    accessories.push({ icon: { source: Icon.CheckCircle, tintColor: Color.Blue }, tooltip: "Selected" });
+  }
+
+  if (bridge) {
+    accessories.push({ tag: bridge.name, tooltip: `Bridge ${bridge.bridgeIP}` });
+  }
+
   if (light.dimming) {
     accessories.push({ text: `${Math.round(brightness)}%` });
   }
@@ -124,12 +338,17 @@ function LightListItem({
 
   const handleToggle = async () => {
     try {
-      await toggleLight(light.id!, !isOn);
+      await updateResource(
+        "light",
+        light.id!,
+        { on: { on: !isOn } },
+        withBridge(bridge, () => toggleLight(light.id!, !isOn)),
+        bridge,
+      );
       await showToast({
         style: Toast.Style.Success,
         title: `${lightName} turned ${isOn ? "off" : "on"}`,
       });
-      await revalidate();
     } catch (error) {
       await showToast({
         style: Toast.Style.Failure,
@@ -141,12 +360,17 @@ function LightListItem({
 
   const handleSetBrightness = async (value: number) => {
     try {
-      await setLightBrightness(light.id!, value);
+      await updateResource(
+        "light",
+        light.id!,
+        { dimming: { brightness: value } },
+        withBridge(bridge, () => setLightBrightness(light.id!, value)),
+        bridge,
+      );
       await showToast({
         style: Toast.Style.Success,
         title: `${lightName} brightness set to ${value}%`,
       });
-      await revalidate();
     } catch (error) {
       await showToast({
         style: Toast.Style.Failure,
@@ -159,12 +383,17 @@ function LightListItem({
   const handleSetColor = async (hex: string) => {
     try {
       const xy = hexToXY(hex);
-      await setLightColor(light.id!, xy.x, xy.y);
+      await updateResource(
+        "light",
+        light.id!,
+        { color: { xy } },
+        withBridge(bridge, () => setLightColor(light.id!, xy.x, xy.y)),
+        bridge,
+      );
       await showToast({
         style: Toast.Style.Success,
         title: `${lightName} color updated`,
       });
-      await revalidate();
     } catch (error) {
       await showToast({
         style: Toast.Style.Failure,
@@ -176,12 +405,21 @@ function LightListItem({
 
   const handleSetTemperature = async (mirek: number) => {
     try {
-      await setLightColorTemperature(light.id!, mirek);
+      await updateResource(
+        "light",
+        light.id!,
+        {
+          color_temperature: { mirek, mirek_valid: true },
+          // The icon tint of color lights follows their xy color
+          ...(light.color && { color: { xy: mirekToXY(mirek) } }),
+        },
+        withBridge(bridge, () => setLightColorTemperature(light.id!, mirek)),
+        bridge,
+      );
       await showToast({
         style: Toast.Style.Success,
         title: `${lightName} temperature updated`,
       });
-      await revalidate();
     } catch (error) {
       await showToast({
         style: Toast.Style.Failure,
@@ -191,12 +429,71 @@ function LightListItem({
     }
   };
 
+  const handleStepBrightness = async (action: "up" | "down") => {
+    // The bridge applies the delta; show where it should land until it reports the new brightness
+    const expected = Math.max(1, Math.min(100, brightness + (action === "up" ? BRIGHTNESS_STEP : -BRIGHTNESS_STEP)));
+
+    try {
+      await updateResource(
+        "light",
+        light.id!,
+        { dimming: { brightness: expected } },
+        withBridge(bridge, () => stepLightBrightness(light.id!, action, BRIGHTNESS_STEP)),
+        bridge,
+      );
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${lightName} ${action === "up" ? "brighter" : "dimmer"}`,
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to change brightness",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const handleStepTemperature = async (action: "up" | "down") => {
+    const mirek = light.color_temperature?.mirek;
+    const minimum = light.color_temperature?.mirek_schema?.mirek_minimum ?? 153;
+    const maximum = light.color_temperature?.mirek_schema?.mirek_maximum ?? 500;
+    const expected =
+      mirek && Math.max(minimum, Math.min(maximum, mirek + (action === "up" ? MIREK_STEP : -MIREK_STEP)));
+    const patch = expected
+      ? {
+          color_temperature: { mirek: expected, mirek_valid: true },
+          ...(light.color && { color: { xy: mirekToXY(expected) } }),
+        }
+      : {};
+
+    try {
+      await updateResource(
+        "light",
+        light.id!,
+        patch,
+        withBridge(bridge, () => stepLightColorTemperature(light.id!, action, MIREK_STEP)),
+        bridge,
+      );
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${lightName} ${action === "up" ? "warmer" : "cooler"}`,
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to change temperature",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
   return (
     <List.Item
       icon={iconTintColor ? { source: Icon.LightBulb, tintColor: iconTintColor } : Icon.LightBulb}
       title={lightName}
       subtitle={`${roomName} • ${formatArchetype(lightArchetype)}`}
-      keywords={[roomName]}
+      keywords={bridge ? [roomName, bridge.name] : [roomName]}
       accessories={accessories}
       actions={
         <ActionPanel>
@@ -206,8 +503,26 @@ function LightListItem({
               title={isOn ? "Turn off" : "Turn on"}
               onAction={handleToggle}
             />
+            <Action
+              icon={isSelected ? Icon.Circle : Icon.CheckCircle}
+              title={isSelected ? "Deselect Light" : "Select Light"}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+              onAction={() => selection.toggleSelected(light, bridge)}
+            />
+            {(light.dimming || light.color || light.color_temperature) && (
+              <Action.Push
+                icon={Icon.Pencil}
+                title="Set Custom Value"
+                shortcut={{ modifiers: ["cmd"], key: "e" }}
+                target={<SetLightValueForm light={light} bridge={bridge} updateResource={updateResource} />}
+              />
+            )}
           </ActionPanel.Section>
 
+          {selection.selectedLights.length > 0 && (
+            <BulkLightActions selection={selection} updateResources={updateResources} />
+          )}
+
           {light.dimming && (
             <ActionPanel.Section title="Brightness">
               <Action
@@ -240,6 +555,18 @@ function LightListItem({
                 shortcut={{ modifiers: ["cmd"], key: "5" }}
                 onAction={() => handleSetBrightness(10)}
               />
+              <Action
+                icon={Icon.Plus}
+                title="Brighter"
+                shortcut={{ modifiers: ["opt"], key: "arrowUp" }}
+                onAction={() => handleStepBrightness("up")}
+              />
+              <Action
+                icon={Icon.Minus}
+                title="Dimmer"
+                shortcut={{ modifiers: ["opt"], key: "arrowDown" }}
+                onAction={() => handleStepBrightness("down")}
+              />
             </ActionPanel.Section>
           )}
 
@@ -266,6 +593,18 @@ function LightListItem({
                   onAction={() => handleSetTemperature(preset.mirek)}
                 />
               ))}
+              <Action
+                icon={Icon.Temperature}
+                title="Warmer"
+                shortcut={{ modifiers: ["opt"], key: "arrowLeft" }}
+                onAction={() => handleStepTemperature("up")}
+              />
+              <Action
+                icon={Icon.Temperature}
+                title="Cooler"
+                shortcut={{ modifiers: ["opt"], key: "arrowRight" }}
+                onAction={() => handleStepTemperature("down")}
+              />
             </ActionPanel.Section>
           )}
 
@@ -276,9 +615,166 @@ function LightListItem({
               shortcut={{ modifiers: ["cmd"], key: "r" }}
               onAction={revalidate}
             />
+            <ShowAllBridgesAction allBridges={allBridges} />
+            <SwitchBridgeSubmenu bridgeProfiles={bridgeProfiles} />
           </ActionPanel.Section>
         </ActionPanel>
       }
     />
   );
 }
+
+// Actions applied to every selected light at once
+function BulkLightActions({
+  selection,
+  updateResources,
+}: {
+  selection: LightSelection;
+  updateResources: UpdateResources;
+}) {
+  const { selectedLights } = selection;
+  const count = selectedLights.length;
+  const anyOn = selectedLights.some(({ light }) => light.on?.on);
+
+  /**
+   * Send an update to every selected light, one batch per bridge.
+   * `buildUpdate` returns undefined for lights that don't support the change; they are reported as failures.
+   */
+  const handleBulkUpdate = async (description: string, buildUpdate: (light: Light) => LightPut | undefined) => {
+    const failures: string[] = [];
+    const batches = new Map<
+      string,
+      {
+        bridge?: BridgeConnection;
+        updates: Record<string, LightPut>;
+        patches: Record<string, Record<string, unknown>>;
+        lightNames: Record<string, string>;
+        // Properties the update changes, as they were before, to restore lights the update failed for
+        originals: Record<string, Record<string, unknown>>;
+      }
+    >();
+
+    for (const { light, bridge } of selectedLights) {
+      const lightName = light.metadata?.name ?? "Unknown Light";
+      const update = buildUpdate(light);
+      if (!update) {
+        failures.push(`${lightName}: not supported`);
+        continue;
+      }
+
+      const batchKey = bridge?.bridgeIP ?? "active";
+      if (!batches.has(batchKey)) {
+        batches.set(batchKey, { bridge, updates: {}, patches: {}, lightNames: {}, originals: {} });
+      }
+      const mirek = update.color_temperature?.mirek;
+      const patch = {
+        ...update,
+        ...(mirek && light.color && { color: { xy: mirekToXY(mirek) } }),
+      };
+      batches.get(batchKey)!.updates[light.id!] = update;
+      batches.get(batchKey)!.patches[light.id!] = patch;
+      batches.get(batchKey)!.lightNames[light.id!] = lightName;
+      batches.get(batchKey)!.originals[light.id!] = Object.fromEntries(
+        Object.keys(patch).map((key) => [key, light[key as keyof Light]]),
+      );
+    }
+
+    try {
+      for (const { bridge, updates, patches, lightNames, originals } of batches.values()) {
+        const { lights, groups } = selection.getBridgeLights(bridge) ?? { lights: [], groups: [] };
+        const results = withBridge(bridge, () => updateLights(updates, { lights, groups }));
+        await updateResources(
+          Object.entries(patches).map(([id, patch]) => ({ type: "light", id, patch })),
+          results,
+          bridge,
+        );
+
+        // The batch itself never fails, so put back the lights it couldn't update
+        const failedResults = (await results).filter((result) => !result.success);
+        if (failedResults.length > 0) {
+          await updateResources(
+            failedResults.map(({ lightId }) => ({ type: "light", id: lightId, patch: originals[lightId] })),
+            Promise.resolve(),
+            bridge,
+          );
+        }
+
+        for (const result of failedResults) {
+          failures.push(`${lightNames[result.lightId]}: ${result.error}`);
+        }
+      }
+
+      if (failures.length === 0) {
+        await showToast({
+          style: Toast.Style.Success,
+          title: `${description} for ${count} ${count === 1 ? "light" : "lights"}`,
+        });
+      } else {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: `${description} failed for ${failures.length} of ${count} ${count === 1 ? "light" : "lights"}`,
+          message: failures.join("\n"),
+        });
+      }
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to update selected lights",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <ActionPanel.Section title={`${count} Selected ${count === 1 ? "Light" : "Lights"}`}>
+      <Action
+        icon={anyOn ? Icon.LightBulbOff : Icon.LightBulb}
+        title={anyOn ? "Turn off Selected" : "Turn on Selected"}
+        onAction={() => handleBulkUpdate(anyOn ? "Turned off" : "Turned on", () => ({ on: { on: !anyOn } }))}
+      />
+      <ActionPanel.Submenu title="Set Brightness of Selected" icon={Icon.Sun}>
+        {[100, 75, 50, 25, 10].map((value) => (
+          <Action
+            key={value}
+            icon={Icon.Sun}
+            title={`${value}%`}
+            onAction={() =>
+              handleBulkUpdate(`Brightness set to ${value}%`, (light) =>
+                light.dimming ? { dimming: { brightness: value } } : undefined,
+              )
+            }
+          />
+        ))}
+      </ActionPanel.Submenu>
+      <ActionPanel.Submenu title="Set Color of Selected" icon={Icon.Swatch}>
+        {PRESET_COLORS.map((preset) => (
+          <Action
+            key={preset.name}
+            icon={{ source: Icon.Circle, tintColor: preset.hex }}
+            title={preset.name}
+            onAction={() =>
+              handleBulkUpdate(`Color set to ${preset.name}`, (light) =>
+                light.color ? { color: { xy: hexToXY(preset.hex) } } : undefined,
+              )
+            }
+          />
+        ))}
+      </ActionPanel.Submenu>
+      <ActionPanel.Submenu title="Set Temperature of Selected" icon={Icon.Temperature}>
+        {PRESET_TEMPERATURES.map((preset) => (
+          <Action
+            key={preset.name}
+            icon={Icon.Temperature}
+            title={preset.name}
+            onAction={() =>
+              handleBulkUpdate(`Temperature set to ${preset.name}`, (light) =>
+                light.color_temperature ? { color_temperature: { mirek: preset.mirek } } : undefined,
+              )
+            }
+          />
+        ))}
+      </ActionPanel.Submenu>
+      <Action icon={Icon.XMarkCircle} title="Clear Selection" onAction={selection.clearSelection} />
+    </ActionPanel.Section>
+  );
+}
@@ -1,9 +1,54 @@
-import { List, ActionPanel, Action, Icon, showToast, Toast, Color, openExtensionPreferences } from "@raycast/api";
-import { useLightsWithRooms, findGroupedLightForRoom } from "./hooks/useHue";
-import { toggleRoom, setRoomBrightness } from "./api/rooms";
+import { useState } from "react";
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  Color,
+  openExtensionPreferences,
+  Form,
+  Alert,
+  confirmAlert,
+  useNavigation,
+} from "@raycast/api";
+import {
+  useLightsWithRooms,
+  useAllBridgesLightsWithRooms,
+  useDevicesWithRooms,
+  findGroupedLightForRoom,
+  findLightsInGroup,
+  UpdateResource,
+} from "./hooks/useHue";
+import { useShowAllBridges, useBridgeProfiles, ShowAllBridges, BridgeProfiles } from "./hooks/useBridgeProfiles";
+import {
+  toggleRoom,
+  setRoomBrightness,
+  stepRoomBrightness,
+  stepRoomColorTemperature,
+  createRoom,
+  updateRoom,
+  deleteRoom,
+  moveDevicesToRoom,
+} from "./api/rooms";
 import { activateScene } from "./api/scenes";
-import type { RoomGet as Room, GroupedLightGet as GroupedLight, SceneGet as Scene } from "./api/generated/src/models";
-import { getCredentials } from "./api/client";
+import { withBridge } from "./api/configuration";
+import { isBridgeDevice } from "./api/devices";
+import { RoomArchetype } from "./api/generated/src/models";
+import type {
+  LightGet as Light,
+  RoomGet as Room,
+  RoomPut,
+  GroupedLightGet as GroupedLight,
+  SceneGet as Scene,
+} from "./api/generated/src/models";
+import { getCredentials, BridgeConnection } from "./api/client";
+import { SwitchBridgeSubmenu } from "./components/SwitchBridgeSubmenu";
+import { ShowAllBridgesAction } from "./components/ShowAllBridgesAction";
+import { SaveSceneForm } from "./components/SaveSceneForm";
+import { BRIGHTNESS_STEP, MIREK_STEP } from "./utils/color";
+import { getArchetypeIcon, formatArchetype } from "./utils/archetype";
 
 export default function RoomsCommand() {
   const credentials = getCredentials();
@@ -33,7 +78,24 @@ function NoBridgeConfigured() {
 }
 
 function RoomsList() {
-  const { rooms, groupedLights, scenes, isLoading, error, revalidate } = useLightsWithRooms();
+  const allBridges = useShowAllBridges();
+  const bridgeProfiles = useBridgeProfiles();
+
+  return allBridges.showAllBridges ? (
+    <AllBridgesRoomsList allBridges={allBridges} bridgeProfiles={bridgeProfiles} />
+  ) : (
+    <ActiveBridgeRoomsList allBridges={allBridges} bridgeProfiles={bridgeProfiles} />
+  );
+}
+
+function ActiveBridgeRoomsList({
+  allBridges,
+  bridgeProfiles,
+}: {
+  allBridges: ShowAllBridges;
+  bridgeProfiles: BridgeProfiles;
+}) {
+  const { lights, rooms, groupedLights, scenes, isLoading, error, revalidate, updateResource } = useLightsWithRooms();
 
   if (error) {
     showToast({
@@ -43,11 +105,108 @@ function RoomsList() {
     });
   }
 
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search rooms...">
+      <List.EmptyView
+        icon={Icon.House}
+        title="No Rooms"
+        description="Create a room to group your devices."
+        actions={
+          <ActionPanel>
+            <Action.Push
+              icon={Icon.Plus}
+              title="Create Room"
+              target={<RoomForm rooms={rooms} revalidate={revalidate} />}
+            />
+          </ActionPanel>
+        }
+      />
+      <RoomItems
+        lights={lights}
+        rooms={rooms}
+        groupedLights={groupedLights}
+        scenes={scenes}
+        revalidate={revalidate}
+        updateResource={updateResource}
+        allBridges={allBridges}
+        bridgeProfiles={bridgeProfiles}
+      />
+    </List>
+  );
+}
+
+function AllBridgesRoomsList({
+  allBridges,
+  bridgeProfiles,
+}: {
+  allBridges: ShowAllBridges;
+  bridgeProfiles: BridgeProfiles;
+}) {
+  const { bridges, isLoading, error, revalidate, updateResource } = useAllBridgesLightsWithRooms();
+  const failedBridges = bridges.filter((resources) => resources.error);
+
+  if (error) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to load rooms",
+      message: error.message,
+    });
+  } else if (failedBridges.length > 0) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: `Failed to load rooms from ${failedBridges.length === 1 ? "1 bridge" : `${failedBridges.length} bridges`}`,
+      message: failedBridges.map((resources) => `${resources.bridge.name}: ${resources.error?.message}`).join("\n"),
+    });
+  }
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search rooms on all bridges...">
+      {bridges.map(({ bridge, lights, rooms, groupedLights, scenes }) => (
+        <List.Section key={bridge.bridgeIP} title={bridge.name} subtitle={`${rooms.length} rooms`}>
+          <RoomItems
+            lights={lights}
+            rooms={rooms}
+            groupedLights={groupedLights}
+            scenes={scenes}
+            bridge={bridge}
+            revalidate={revalidate}
+            updateResource={updateResource}
+            allBridges={allBridges}
+            bridgeProfiles={bridgeProfiles}
+          />
+        </List.Section>
+      ))}
+    </List>
+  );
+}
+
+// Rooms of a single bridge, sorted by name
+function RoomItems({
+  rooms,
+  lights,
+  groupedLights,
+  scenes,
+  bridge,
+  revalidate,
+  updateResource,
+  allBridges,
+  bridgeProfiles,
+}: {
+  lights: Light[];
+  rooms: Room[];
+  groupedLights: GroupedLight[];
+  scenes: Scene[];
+  bridge?: BridgeConnection;
+  revalidate: () => Promise<void>;
+  updateResource: UpdateResource;
+  allBridges: ShowAllBridges;
+  bridgeProfiles: BridgeProfiles;
+}) {
   // Sort rooms by name
   const sortedRooms = [...rooms].sort((a, b) => (a.metadata?.name ?? "").localeCompare(b.metadata?.name ?? ""));
 
   return (
-    <List isLoading={isLoading} searchBarPlaceholder="Search rooms...">
+    <>
       {sortedRooms.map((room) => {
         const groupedLight = findGroupedLightForRoom(room, groupedLights);
         const roomScenes = scenes.filter((s) => s.group?.rid === room.id);
@@ -56,25 +215,45 @@ function RoomsList() {
             key={room.id}
             room={room}
             groupedLight={groupedLight}
+            // Warmer/Cooler only does something if some light of the room supports color temperature
+            supportsColorTemperature={findLightsInGroup(room, lights).some((light) => light.color_temperature)}
             scenes={roomScenes}
+            rooms={rooms}
+            bridge={bridge}
             revalidate={revalidate}
+            updateResource={updateResource}
+            allBridges={allBridges}
+            bridgeProfiles={bridgeProfiles}
           />
         );
       })}
-    </List>
+    </>
   );
 }
 
 function RoomListItem({
   room,
   groupedLight,
+  supportsColorTemperature,
   scenes,
+  rooms,
+  bridge,
   revalidate,
+  updateResource,
+  allBridges,
+  bridgeProfiles,
 }: {
   room: Room;
   groupedLight: GroupedLight | undefined;
+  supportsColorTemperature: boolean;
   scenes: Scene[];
+  rooms: Room[];
+  // Set when listing all bridges; actions are sent to this bridge instead of the active one
+  bridge?: BridgeConnection;
   revalidate: () => Promise<void>;
+  updateResource: UpdateResource;
+  allBridges: ShowAllBridges;
+  bridgeProfiles: BridgeProfiles;
 }) {
   const isOn = groupedLight?.on?.on ?? false;
   const brightness = groupedLight?.dimming?.brightness ?? 100;
@@ -87,6 +266,10 @@ function RoomListItem({
 
   const accessories: List.Item.Accessory[] = [];
 
+  if (bridge) {
+    accessories.push({ tag: bridge.name, tooltip: `Bridge ${bridge.bridgeIP}` });
+  }
+
   if (groupedLight?.dimming) {
     accessories.push({ text: `${Math.round(brightness)}%` });
   }
@@ -104,12 +287,17 @@ function RoomListItem({
     if (!groupedLight?.id) return;
 
     try {
-      await toggleRoom(groupedLight.id, !isOn);
+      await updateResource(
+        "grouped_light",
+        groupedLight.id,
+        { on: { on: !isOn } },
+        withBridge(bridge, () => toggleRoom(groupedLight.id!, !isOn)),
+        bridge,
+      );
       await showToast({
         style: Toast.Style.Success,
         title: `${roomName} turned ${isOn ? "off" : "on"}`,
       });
-      await revalidate();
     } catch (error) {
       await showToast({
         style: Toast.Style.Failure,
@@ -123,12 +311,17 @@ function RoomListItem({
     if (!groupedLight?.id) return;
 
     try {
-      await setRoomBrightness(groupedLight.id, value);
+      await updateResource(
+        "grouped_light",
+        groupedLight.id,
+        { dimming: { brightness: value } },
+        withBridge(bridge, () => setRoomBrightness(groupedLight.id!, value)),
+        bridge,
+      );
       await showToast({
         style: Toast.Style.Success,
         title: `${roomName} brightness set to ${value}%`,
       });
-      await revalidate();
     } catch (error) {
       await showToast({
         style: Toast.Style.Failure,
@@ -138,10 +331,89 @@ function RoomListItem({
     }
   };
 
+  // Each light of the room changes from its own brightness, so they keep their differences
+  const handleStepBrightness = async (action: "up" | "down") => {
+    if (!groupedLight?.id) return;
+
+    const expected = Math.max(1, Math.min(100, brightness + (action === "up" ? BRIGHTNESS_STEP : -BRIGHTNESS_STEP)));
+
+    try {
+      await updateResource(
+        "grouped_light",
+        groupedLight.id,
+        { dimming: { brightness: expected } },
+        withBridge(bridge, () => stepRoomBrightness(groupedLight.id!, action, BRIGHTNESS_STEP)),
+        bridge,
+      );
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${roomName} ${action === "up" ? "brighter" : "dimmer"}`,
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to change brightness",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const handleStepTemperature = async (action: "up" | "down") => {
+    if (!groupedLight?.id) return;
+
+    try {
+      // The grouped light doesn't report a color temperature, so there's nothing to update optimistically
+      await updateResource(
+        "grouped_light",
+        groupedLight.id,
+        {},
+        withBridge(bridge, () => stepRoomColorTemperature(groupedLight.id!, action, MIREK_STEP)),
+        bridge,
+      );
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${roomName} ${action === "up" ? "warmer" : "cooler"}`,
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to change temperature",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!room.id) return;
+
+    const confirmed = await confirmAlert({
+      title: `Delete "${roomName}"?`,
+      message: "The room and its scenes will be removed from the bridge. Its devices will become unassigned.",
+      icon: Icon.Trash,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteRoom(room.id);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${roomName} deleted`,
+      });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to delete room",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
   const handleActivateScene = async (scene: Scene) => {
     if (!scene.id) return;
     try {
-      await activateScene(scene.id);
+      await withBridge(bridge, () => activateScene(scene.id!));
       await showToast({
         style: Toast.Style.Success,
         title: `Scene "${scene.metadata?.name ?? "Unknown"}" activated`,
@@ -191,6 +463,17 @@ function RoomListItem({
                 </ActionPanel.Section>
               )}
 
+              {!bridge && (
+                <ActionPanel.Section>
+                  <Action.Push
+                    icon={Icon.SaveDocument}
+                    title="Save Current State as Scene"
+                    shortcut={{ modifiers: ["cmd"], key: "s" }}
+                    target={<SaveSceneForm group={room} groupType="room" revalidate={revalidate} />}
+                  />
+                </ActionPanel.Section>
+              )}
+
               <ActionPanel.Section title="Brightness">
                 <Action
                   icon={Icon.Sun}
@@ -222,10 +505,64 @@ function RoomListItem({
                   shortcut={{ modifiers: ["cmd"], key: "5" }}
                   onAction={() => handleSetBrightness(10)}
                 />
+                <Action
+                  icon={Icon.Plus}
+                  title="Brighter"
+                  shortcut={{ modifiers: ["opt"], key: "arrowUp" }}
+                  onAction={() => handleStepBrightness("up")}
+                />
+                <Action
+                  icon={Icon.Minus}
+                  title="Dimmer"
+                  shortcut={{ modifiers: ["opt"], key: "arrowDown" }}
+                  onAction={() => handleStepBrightness("down")}
+                />
               </ActionPanel.Section>
+
+              {supportsColorTemperature && (
+                <ActionPanel.Section title="Color Temperature">
+                  <Action
+                    icon={Icon.Temperature}
+                    title="Warmer"
+                    shortcut={{ modifiers: ["opt"], key: "arrowLeft" }}
+                    onAction={() => handleStepTemperature("up")}
+                  />
+                  <Action
+                    icon={Icon.Temperature}
+                    title="Cooler"
+                    shortcut={{ modifiers: ["opt"], key: "arrowRight" }}
+                    onAction={() => handleStepTemperature("down")}
+                  />
+                </ActionPanel.Section>
+              )}
             </>
           )}
 
+          {/* Forms always write to the active bridge, so managing rooms is only offered for it */}
+          {!bridge && (
+            <ActionPanel.Section title="Manage">
+              <Action.Push
+                icon={Icon.Pencil}
+                title="Edit Room"
+                shortcut={{ modifiers: ["cmd"], key: "e" }}
+                target={<RoomForm room={room} rooms={rooms} revalidate={revalidate} />}
+              />
+              <Action.Push
+                icon={Icon.Plus}
+                title="Create Room"
+                shortcut={{ modifiers: ["cmd"], key: "n" }}
+                target={<RoomForm rooms={rooms} revalidate={revalidate} />}
+              />
+              <Action
+                icon={Icon.Trash}
+                title="Delete Room"
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                onAction={handleDelete}
+              />
+            </ActionPanel.Section>
+          )}
+
           <ActionPanel.Section>
             <Action
               icon={Icon.ArrowClockwise}
@@ -233,6 +570,8 @@ function RoomListItem({
               shortcut={{ modifiers: ["cmd"], key: "r" }}
               onAction={revalidate}
             />
+            <ShowAllBridgesAction allBridges={allBridges} />
+            <SwitchBridgeSubmenu bridgeProfiles={bridgeProfiles} />
           </ActionPanel.Section>
         </ActionPanel>
       }
@@ -240,40 +579,121 @@ function RoomListItem({
   );
 }
 
-function getArchetypeIcon(archetype: string): Icon {
-  const iconMap: Record<string, Icon> = {
-    living_room: Icon.House,
-    kitchen: Icon.Mug,
-    dining: Icon.Mug,
-    bedroom: Icon.Moon,
-    kids_bedroom: Icon.TwoPeople,
-    bathroom: Icon.Droplets,
-    office: Icon.Desktop,
-    gym: Icon.Heartbeat,
-    hallway: Icon.ArrowRight,
-    garage: Icon.Car,
-    garden: Icon.Tree,
-    terrace: Icon.Sun,
-    balcony: Icon.Sun,
-    front_door: Icon.Key,
-    staircase: Icon.ChevronUp,
-    lounge: Icon.House,
-    tv: Icon.Monitor,
-    computer: Icon.Desktop,
-    music: Icon.Music,
-    reading: Icon.Book,
-    closet: Icon.Box,
-    storage: Icon.Box,
-    laundry_room: Icon.Box,
-    pool: Icon.Droplets,
-  };
-
-  return iconMap[archetype] ?? Icon.House;
+interface RoomFormValues {
+  name: string;
+  archetype: string;
+  deviceIds: string[];
 }
 
-function formatArchetype(archetype: string): string {
-  return archetype
-    .split("_")
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(" ");
+function RoomForm({ room, rooms, revalidate }: { room?: Room; rooms: Room[]; revalidate: () => Promise<void> }) {
+  const { pop } = useNavigation();
+  const { devices, isLoading } = useDevicesWithRooms();
+  const [nameError, setNameError] = useState<string | undefined>();
+  // Controlled so the current devices stay selected while the device list is still loading
+  const [deviceIds, setDeviceIds] = useState<string[]>(
+    () => room?.children?.filter((c) => c.rtype === "device" && c.rid).map((c) => c.rid!) ?? [],
+  );
+
+  const isEditing = room !== undefined;
+
+  const getCurrentRoomName = (deviceId: string) =>
+    rooms.find((r) => r.children?.some((c) => c.rid === deviceId))?.metadata?.name ?? "Unassigned";
+
+  // Sort devices by their current room then name so the picker is easy to scan
+  const sortedDevices = devices
+    .filter((device) => device.id && !isBridgeDevice(device))
+    .map((device) => ({ device, roomName: getCurrentRoomName(device.id!) }))
+    .sort(
+      (a, b) =>
+        a.roomName.localeCompare(b.roomName) ||
+        (a.device.metadata?.name ?? "").localeCompare(b.device.metadata?.name ?? ""),
+    );
+
+  const handleSubmit = async (values: RoomFormValues) => {
+    const name = values.name.trim();
+    if (!name) {
+      setNameError("Name is required");
+      return;
+    }
+
+    // Keep any non-device children untouched
+    const otherChildren = room?.children?.filter((c) => c.rtype !== "device") ?? [];
+    const data: RoomPut = {
+      metadata: { name, archetype: values.archetype as RoomArchetype },
+      children: [...otherChildren, ...deviceIds.map((rid) => ({ rid, rtype: "device" as const }))],
+    };
+
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: isEditing ? "Updating room..." : "Creating room...",
+    });
+
+    try {
+      await moveDevicesToRoom(
+        deviceIds,
+        rooms,
+        () => (isEditing ? updateRoom(room.id!, data) : createRoom(data)),
+        room?.id,
+      );
+      toast.style = Toast.Style.Success;
+      toast.title = isEditing ? `${name} updated` : `${name} created`;
+      await revalidate();
+      pop();
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = isEditing ? "Failed to update room" : "Failed to create room";
+      toast.message = error instanceof Error ? error.message : "Unknown error";
+    }
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={isEditing ? `Edit ${room.metadata?.name ?? "Room"}` : "Create Room"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={isEditing ? "Save Room" : "Create Room"}
+            icon={Icon.Check}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="e.g., Living Room"
+        defaultValue={room?.metadata?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      <Form.Dropdown id="archetype" title="Icon" defaultValue={room?.metadata?.archetype ?? RoomArchetype.other}>
+        {Object.values(RoomArchetype).map((archetype) => (
+          <Form.Dropdown.Item
+            key={archetype}
+            value={archetype}
+            title={formatArchetype(archetype)}
+            icon={getArchetypeIcon(archetype)}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.TagPicker
+        id="deviceIds"
+        title="Devices"
+        info="Devices currently in another room will be moved to this one."
+        value={deviceIds}
+        onChange={setDeviceIds}
+      >
+        {sortedDevices.map(({ device, roomName }) => (
+          <Form.TagPicker.Item
+            key={device.id}
+            value={device.id!}
+            title={`${device.metadata?.name ?? "Unknown Device"} (${roomName})`}
+            icon={Icon.LightBulb}
+          />
+        ))}
+      </Form.TagPicker>
+    </Form>
+  );
 }
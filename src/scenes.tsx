@@ -1,8 +1,30 @@
-import { List, ActionPanel, Action, Icon, showToast, Toast, Color, openExtensionPreferences } from "@raycast/api";
-import { useScenesWithRooms, getRoomName } from "./hooks/useHue";
-import { activateScene, groupScenesByRoom } from "./api/scenes";
-import type { SceneGet as Scene } from "./api/generated/src/models";
+import { useState } from "react";
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  Color,
+  openExtensionPreferences,
+  Form,
+  Alert,
+  confirmAlert,
+  useNavigation,
+} from "@raycast/api";
+import { useScenesWithRooms, useLightsWithRooms, getRoomName } from "./hooks/useHue";
+import { activateScene, groupScenesByRoom, updateScene, deleteScene, toActionPosts } from "./api/scenes";
+import type {
+  SceneGet as Scene,
+  ActionGet as SceneAction,
+  ActionPost,
+  LightGet as Light,
+} from "./api/generated/src/models";
 import { getCredentials } from "./api/client";
+import { SwitchBridgeSubmenu } from "./components/SwitchBridgeSubmenu";
+import { useBridgeProfiles, BridgeProfiles } from "./hooks/useBridgeProfiles";
+import { xyToHex, mirekToHex, hexToXY } from "./utils/color";
 
 export default function ScenesCommand() {
   const credentials = getCredentials();
@@ -33,6 +55,7 @@ function NoBridgeConfigured() {
 
 function ScenesList() {
   const { scenes, rooms, isLoading, error, revalidate } = useScenesWithRooms();
+  const bridgeProfiles = useBridgeProfiles();
 
   if (error) {
     showToast({
@@ -59,7 +82,13 @@ function ScenesList() {
       {sortedRooms.map(({ roomId, roomName, scenes: roomScenes }) => (
         <List.Section key={roomId} title={roomName} subtitle={`${roomScenes.length} scenes`}>
           {roomScenes.map((scene) => (
-            <SceneListItem key={scene.id} scene={scene} roomName={roomName} revalidate={revalidate} />
+            <SceneListItem
+              key={scene.id}
+              scene={scene}
+              roomName={roomName}
+              revalidate={revalidate}
+              bridgeProfiles={bridgeProfiles}
+            />
           ))}
         </List.Section>
       ))}
@@ -71,10 +100,12 @@ function SceneListItem({
   scene,
   roomName,
   revalidate,
+  bridgeProfiles,
 }: {
   scene: Scene;
   roomName: string;
   revalidate: () => Promise<void>;
+  bridgeProfiles: BridgeProfiles;
 }) {
   const isActive = scene.status?.active !== "inactive";
 
@@ -87,6 +118,8 @@ function SceneListItem({
     });
   }
 
+  const handleDelete = () => confirmAndDeleteScene(scene, revalidate);
+
   const handleActivate = async (action: "active" | "dynamic_palette" | "static" = "active") => {
     if (!scene.id) return;
     try {
@@ -130,6 +163,28 @@ function SceneListItem({
             />
           </ActionPanel.Section>
 
+          <ActionPanel.Section title="Manage">
+            <Action.Push
+              icon={Icon.List}
+              title="Show Scene Actions"
+              shortcut={{ modifiers: ["cmd"], key: "o" }}
+              target={<SceneDetail sceneId={scene.id!} initialScene={scene} revalidate={revalidate} />}
+            />
+            <Action.Push
+              icon={Icon.Pencil}
+              title="Edit Scene"
+              shortcut={{ modifiers: ["cmd"], key: "e" }}
+              target={<SceneSettingsForm scene={scene} revalidate={revalidate} />}
+            />
+            <Action
+              icon={Icon.Trash}
+              title="Delete Scene"
+              style={Action.Style.Destructive}
+              shortcut={{ modifiers: ["ctrl"], key: "x" }}
+              onAction={handleDelete}
+            />
+          </ActionPanel.Section>
+
           <ActionPanel.Section>
             <Action
               icon={Icon.ArrowClockwise}
@@ -137,9 +192,381 @@ function SceneListItem({
               shortcut={{ modifiers: ["cmd"], key: "r" }}
               onAction={revalidate}
             />
+            <SwitchBridgeSubmenu bridgeProfiles={bridgeProfiles} />
           </ActionPanel.Section>
         </ActionPanel>
       }
     />
   );
 }
+
+async function confirmAndDeleteScene(scene: Scene, revalidate: () => Promise<void>): Promise<boolean> {
+  if (!scene.id) return false;
+  const sceneName = scene.metadata?.name ?? "Unknown Scene";
+
+  const confirmed = await confirmAlert({
+    title: `Delete "${sceneName}"?`,
+    message: "The scene will be permanently removed from the bridge.",
+    icon: Icon.Trash,
+    primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+  });
+  if (!confirmed) return false;
+
+  try {
+    await deleteScene(scene.id);
+    await showToast({
+      style: Toast.Style.Success,
+      title: `Scene "${sceneName}" deleted`,
+    });
+    await revalidate();
+    return true;
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to delete scene",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+    return false;
+  }
+}
+
+// The generated model types action targets as a plain object
+function getTargetId(action: SceneAction): string | undefined {
+  return (action.target as { rid?: string } | undefined)?.rid;
+}
+
+// Hex color for an action, or undefined if it does not set a color
+function getActionColor(action: SceneAction["action"]): string | undefined {
+  const brightness = action?.dimming?.brightness ?? 100;
+  if (action?.color?.xy?.x !== undefined && action.color.xy.y !== undefined) {
+    return xyToHex(action.color.xy.x, action.color.xy.y, brightness);
+  }
+  if (action?.color_temperature?.mirek) {
+    return mirekToHex(action.color_temperature.mirek);
+  }
+  return undefined;
+}
+
+function SceneDetail({
+  sceneId,
+  initialScene,
+  revalidate,
+}: {
+  sceneId: string;
+  initialScene: Scene;
+  revalidate: () => Promise<void>;
+}) {
+  const { pop } = useNavigation();
+  const { scenes, lights, isLoading, revalidate: revalidateScenes } = useLightsWithRooms();
+
+  // Read the scene from the shared cache so edits show up once revalidated
+  const scene = scenes.find((s) => s.id === sceneId) ?? initialScene;
+  const sceneName = scene.metadata?.name ?? "Unknown Scene";
+
+  const revalidateAll = async () => {
+    await revalidateScenes();
+    await revalidate();
+  };
+
+  const getTargetName = (action: SceneAction) => {
+    const light = lights.find((l) => l.id === getTargetId(action));
+    return light?.metadata?.name ?? "Unknown Light";
+  };
+
+  const actions = [...(scene.actions ?? [])].sort((a, b) => getTargetName(a).localeCompare(getTargetName(b)));
+
+  const handleDelete = async () => {
+    if (await confirmAndDeleteScene(scene, revalidate)) {
+      pop();
+    }
+  };
+
+  return (
+    <List isLoading={isLoading} navigationTitle={sceneName} searchBarPlaceholder="Search lights in scene...">
+      <List.Section
+        title={sceneName}
+        subtitle={`Speed ${Math.round((scene.speed ?? 0) * 100)}% • Auto dynamic ${scene.auto_dynamic ? "on" : "off"}`}
+      >
+        {actions.map((action) => {
+          const isOn = action.action?.on?.on ?? false;
+          const color = getActionColor(action.action);
+          const accessories: List.Item.Accessory[] = [];
+
+          if (isOn && action.action?.dimming?.brightness !== undefined) {
+            accessories.push({ text: `${Math.round(action.action.dimming.brightness)}%` });
+          }
+          if (isOn && color) {
+            accessories.push({ icon: { source: Icon.CircleFilled, tintColor: color }, tooltip: color });
+          }
+          accessories.push({
+            icon: isOn
+              ? { source: Icon.Circle, tintColor: Color.Green }
+              : { source: Icon.CircleDisabled, tintColor: Color.SecondaryText },
+            tooltip: isOn ? "On" : "Off",
+          });
+
+          return (
+            <List.Item
+              key={getTargetId(action)}
+              icon={isOn && color ? { source: Icon.LightBulb, tintColor: color } : Icon.LightBulb}
+              title={getTargetName(action)}
+              accessories={accessories}
+              actions={
+                <ActionPanel>
+                  <Action.Push
+                    icon={Icon.Pencil}
+                    title="Edit Light Action"
+                    target={
+                      <SceneActionForm
+                        scene={scene}
+                        action={action}
+                        targetName={getTargetName(action)}
+                        light={lights.find((l) => l.id === getTargetId(action))}
+                        revalidate={revalidateAll}
+                      />
+                    }
+                  />
+                  <Action.Push
+                    icon={Icon.Gear}
+                    title="Edit Scene"
+                    shortcut={{ modifiers: ["cmd"], key: "e" }}
+                    target={<SceneSettingsForm scene={scene} revalidate={revalidateAll} />}
+                  />
+                  <Action
+                    icon={Icon.Trash}
+                    title="Delete Scene"
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={handleDelete}
+                  />
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+    </List>
+  );
+}
+
+interface SceneSettingsFormValues {
+  name: string;
+  speed: string;
+  autoDynamic: boolean;
+}
+
+function SceneSettingsForm({ scene, revalidate }: { scene: Scene; revalidate: () => Promise<void> }) {
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+  const [speedError, setSpeedError] = useState<string | undefined>();
+
+  const handleSubmit = async (values: SceneSettingsFormValues) => {
+    const name = values.name.trim();
+    if (!name) {
+      setNameError("Name is required");
+      return;
+    }
+
+    // Speed is shown as a percentage but stored as a value between 0 and 1
+    const speed = Number(values.speed);
+    if (values.speed.trim() === "" || Number.isNaN(speed) || speed < 0 || speed > 100) {
+      setSpeedError("Enter a value between 0 and 100");
+      return;
+    }
+
+    try {
+      await updateScene(scene.id!, {
+        metadata: { ...scene.metadata, name },
+        speed: speed / 100,
+        auto_dynamic: values.autoDynamic,
+      });
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Scene "${name}" updated`,
+      });
+      await revalidate();
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to update scene",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`Edit ${scene.metadata?.name ?? "Scene"}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Scene" icon={Icon.Check} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        defaultValue={scene.metadata?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      <Form.TextField
+        id="speed"
+        title="Dynamic Speed (%)"
+        defaultValue={String(Math.round((scene.speed ?? 0) * 100))}
+        info="Speed of the dynamic palette, from 0 (slowest) to 100 (fastest)."
+        error={speedError}
+        onChange={() => setSpeedError(undefined)}
+      />
+      <Form.Checkbox
+        id="autoDynamic"
+        label="Start dynamic palette when the scene is recalled"
+        title="Auto Dynamic"
+        defaultValue={scene.auto_dynamic ?? false}
+      />
+    </Form>
+  );
+}
+
+type ColorMode = "none" | "color" | "temperature";
+
+interface SceneActionFormValues {
+  on: boolean;
+  brightness: string;
+  color: string;
+  mirek: string;
+}
+
+function SceneActionForm({
+  scene,
+  action,
+  targetName,
+  light,
+  revalidate,
+}: {
+  scene: Scene;
+  action: SceneAction;
+  targetName: string;
+  light: Light | undefined;
+  revalidate: () => Promise<void>;
+}) {
+  const { pop } = useNavigation();
+  const current = action.action ?? {};
+  const [colorMode, setColorMode] = useState<ColorMode>(
+    current.color?.xy ? "color" : current.color_temperature?.mirek ? "temperature" : "none",
+  );
+  const [brightnessError, setBrightnessError] = useState<string | undefined>();
+  const [colorError, setColorError] = useState<string | undefined>();
+  const [mirekError, setMirekError] = useState<string | undefined>();
+
+  const mirekMin = light?.color_temperature?.mirek_schema?.mirek_minimum ?? 153;
+  const mirekMax = light?.color_temperature?.mirek_schema?.mirek_maximum ?? 500;
+
+  const handleSubmit = async (values: SceneActionFormValues) => {
+    const brightness = Number(values.brightness);
+    if (values.on && (Number.isNaN(brightness) || brightness < 1 || brightness > 100)) {
+      setBrightnessError("Enter a value between 1 and 100");
+      return;
+    }
+
+    const updated: ActionPost["action"] = { ...current, on: { on: values.on } };
+    delete updated.color;
+    delete updated.color_temperature;
+
+    if (values.on) {
+      updated.dimming = { brightness };
+
+      if (colorMode === "color") {
+        if (!/^#?[0-9a-f]{6}$/i.test(values.color.trim())) {
+          setColorError("Enter a hex color such as #FF8000");
+          return;
+        }
+        updated.color = { xy: hexToXY(values.color.trim()) };
+      } else if (colorMode === "temperature") {
+        const mirek = Number(values.mirek);
+        if (Number.isNaN(mirek) || mirek < mirekMin || mirek > mirekMax) {
+          setMirekError(`Enter a value between ${mirekMin} and ${mirekMax}`);
+          return;
+        }
+        updated.color_temperature = { mirek: Math.round(mirek) };
+      }
+    }
+
+    // The bridge expects the full list of actions, so replace only the edited one
+    const actions = toActionPosts(scene.actions ?? []).map((a) =>
+      a.target.rid === getTargetId(action) ? { ...a, action: updated } : a,
+    );
+
+    try {
+      await updateScene(scene.id!, { actions });
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${targetName} updated in "${scene.metadata?.name ?? "Unknown"}"`,
+      });
+      await revalidate();
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to update scene",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`Edit ${targetName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Light Action" icon={Icon.Check} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Light" text={targetName} />
+      <Form.Checkbox id="on" label="Light is on in this scene" title="On" defaultValue={current.on?.on ?? false} />
+      <Form.TextField
+        id="brightness"
+        title="Brightness (%)"
+        defaultValue={String(Math.round(current.dimming?.brightness ?? 100))}
+        error={brightnessError}
+        onChange={() => setBrightnessError(undefined)}
+      />
+      <Form.Dropdown
+        id="colorMode"
+        title="Color Mode"
+        value={colorMode}
+        onChange={(value) => setColorMode(value as ColorMode)}
+      >
+        <Form.Dropdown.Item value="none" title="Keep Brightness Only" />
+        {(!light || light.color) && <Form.Dropdown.Item value="color" title="Color" />}
+        {(!light || light.color_temperature) && <Form.Dropdown.Item value="temperature" title="Color Temperature" />}
+      </Form.Dropdown>
+      {colorMode === "color" && (
+        <Form.TextField
+          id="color"
+          title="Color (Hex)"
+          placeholder="#FF8000"
+          defaultValue={
+            current.color?.xy?.x !== undefined && current.color.xy.y !== undefined
+              ? xyToHex(current.color.xy.x, current.color.xy.y)
+              : "#FFFFFF"
+          }
+          error={colorError}
+          onChange={() => setColorError(undefined)}
+        />
+      )}
+      {colorMode === "temperature" && (
+        <Form.TextField
+          id="mirek"
+          title="Color Temperature (Mirek)"
+          placeholder={`${mirekMin} (cool) to ${mirekMax} (warm)`}
+          defaultValue={String(current.color_temperature?.mirek ?? 366)}
+          error={mirekError}
+          onChange={() => setMirekError(undefined)}
+        />
+      )}
+    </Form>
+  );
+}
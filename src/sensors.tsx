@@ -0,0 +1,297 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  Color,
+  openExtensionPreferences,
+  getPreferenceValues,
+} from "@raycast/api";
+import { useSensorsWithDevices, findRoomForDevice } from "./hooks/useHue";
+import {
+  setSensorEnabled,
+  setMotionSensitivity,
+  lightLevelToLux,
+  celsiusToFahrenheit,
+  SensorType,
+} from "./api/sensors";
+import type {
+  DeviceGet as Device,
+  RoomGet as Room,
+  MotionGet as Motion,
+  LightLevelGet as LightLevel,
+  TemperatureGet as Temperature,
+} from "./api/generated/src/models";
+import { getCredentials } from "./api/client";
+import { SwitchBridgeSubmenu } from "./components/SwitchBridgeSubmenu";
+import { useBridgeProfiles, BridgeProfiles } from "./hooks/useBridgeProfiles";
+
+interface SensorsPreferences {
+  temperatureUnit?: "celsius" | "fahrenheit";
+}
+
+// Sensors provided by a single physical device (e.g. a Hue motion sensor exposes all three)
+interface SensorDevice {
+  deviceId: string;
+  device: Device | undefined;
+  motion?: Motion;
+  lightLevel?: LightLevel;
+  temperature?: Temperature;
+}
+
+export default function SensorsCommand() {
+  const credentials = getCredentials();
+
+  if (!credentials) {
+    return <NoBridgeConfigured />;
+  }
+
+  return <SensorsList />;
+}
+
+function NoBridgeConfigured() {
+  return (
+    <List>
+      <List.EmptyView
+        icon={Icon.ExclamationMark}
+        title="Hue Bridge Not Configured"
+        description="Please run 'Setup Hue Bridge' to connect to your Philips Hue system."
+        actions={
+          <ActionPanel>
+            <Action title="Open Extension Preferences" onAction={openExtensionPreferences} />
+          </ActionPanel>
+        }
+      />
+    </List>
+  );
+}
+
+function SensorsList() {
+  const { motionSensors, lightLevels, temperatures, devices, rooms, isLoading, error, revalidate } =
+    useSensorsWithDevices();
+  const bridgeProfiles = useBridgeProfiles();
+
+  if (error) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to load sensors",
+      message: error.message,
+    });
+  }
+
+  // Group sensors by their owning device
+  const sensorDevices = new Map<string, SensorDevice>();
+  const getSensorDevice = (deviceId: string) => {
+    if (!sensorDevices.has(deviceId)) {
+      sensorDevices.set(deviceId, { deviceId, device: devices.find((d) => d.id === deviceId) });
+    }
+    return sensorDevices.get(deviceId)!;
+  };
+
+  for (const motion of motionSensors) {
+    if (motion.owner?.rid) getSensorDevice(motion.owner.rid).motion = motion;
+  }
+  for (const lightLevel of lightLevels) {
+    if (lightLevel.owner?.rid) getSensorDevice(lightLevel.owner.rid).lightLevel = lightLevel;
+  }
+  for (const temperature of temperatures) {
+    if (temperature.owner?.rid) getSensorDevice(temperature.owner.rid).temperature = temperature;
+  }
+
+  // Then group devices by room
+  const devicesByRoom = new Map<string, { room: Room | undefined; sensorDevices: SensorDevice[] }>();
+  for (const sensorDevice of sensorDevices.values()) {
+    const room = findRoomForDevice(sensorDevice.deviceId, rooms);
+    const roomKey = room?.id ?? "unassigned";
+
+    if (!devicesByRoom.has(roomKey)) {
+      devicesByRoom.set(roomKey, { room, sensorDevices: [] });
+    }
+    devicesByRoom.get(roomKey)!.sensorDevices.push(sensorDevice);
+  }
+
+  const getRoomName = (room?: Room) => room?.metadata?.name ?? "Unassigned";
+
+  // Sort rooms by name, with unassigned at the end
+  const sortedRooms = Array.from(devicesByRoom.entries()).sort((a, b) => {
+    if (a[0] === "unassigned") return 1;
+    if (b[0] === "unassigned") return -1;
+    return getRoomName(a[1].room).localeCompare(getRoomName(b[1].room));
+  });
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search sensors...">
+      {sortedRooms.map(([roomKey, { room, sensorDevices: roomSensorDevices }]) => (
+        <List.Section key={roomKey} title={getRoomName(room)} subtitle={`${roomSensorDevices.length} sensors`}>
+          {roomSensorDevices.map((sensorDevice) => (
+            <SensorListItem
+              key={sensorDevice.deviceId}
+              sensorDevice={sensorDevice}
+              roomName={getRoomName(room)}
+              revalidate={revalidate}
+              bridgeProfiles={bridgeProfiles}
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
+
+function SensorListItem({
+  sensorDevice,
+  roomName,
+  revalidate,
+  bridgeProfiles,
+}: {
+  sensorDevice: SensorDevice;
+  roomName: string;
+  revalidate: () => Promise<void>;
+  bridgeProfiles: BridgeProfiles;
+}) {
+  const { temperatureUnit = "celsius" } = getPreferenceValues<SensorsPreferences>();
+  const { device, motion, lightLevel, temperature } = sensorDevice;
+  const deviceName = device?.metadata?.name ?? "Unknown Sensor";
+
+  const accessories: List.Item.Accessory[] = [];
+
+  if (temperature?.enabled && temperature.temperature?.temperature_valid) {
+    const celsius = temperature.temperature.temperature_report?.temperature ?? temperature.temperature.temperature;
+    if (celsius !== undefined) {
+      accessories.push({
+        icon: Icon.Temperature,
+        text:
+          temperatureUnit === "fahrenheit"
+            ? `${celsiusToFahrenheit(celsius).toFixed(1)} °F`
+            : `${celsius.toFixed(1)} °C`,
+        tooltip: "Temperature",
+      });
+    }
+  }
+
+  if (lightLevel?.enabled && lightLevel.light?.light_level_valid) {
+    const level = lightLevel.light.light_level_report?.light_level ?? lightLevel.light.light_level;
+    if (level !== undefined) {
+      accessories.push({ icon: Icon.Sun, text: `${Math.round(lightLevelToLux(level))} lx`, tooltip: "Light level" });
+    }
+  }
+
+  if (motion) {
+    const report = motion.motion?.motion_report;
+    const hasMotion = report?.motion ?? motion.motion?.motion ?? false;
+    if (report?.changed) {
+      accessories.push({ date: new Date(report.changed), tooltip: hasMotion ? "Motion detected" : "Last change" });
+    }
+    accessories.push({
+      icon: !motion.enabled
+        ? { source: Icon.EyeDisabled, tintColor: Color.SecondaryText }
+        : hasMotion
+          ? { source: Icon.Eye, tintColor: Color.Orange }
+          : { source: Icon.Eye, tintColor: Color.Green },
+      tooltip: !motion.enabled ? "Motion sensor disabled" : hasMotion ? "Motion detected" : "No motion",
+    });
+  }
+
+  const handleSetEnabled = async (type: SensorType, sensorId: string, label: string, enabled: boolean) => {
+    try {
+      await setSensorEnabled(type, sensorId, enabled);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${deviceName} ${label} ${enabled ? "enabled" : "disabled"}`,
+      });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Failed to ${enabled ? "enable" : "disable"} ${label}`,
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const handleSetSensitivity = async (value: number) => {
+    if (!motion?.id) return;
+
+    try {
+      await setMotionSensitivity(motion.id, value);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${deviceName} sensitivity set to ${value}`,
+      });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to set sensitivity",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const sensors: {
+    type: SensorType;
+    title: string;
+    label: string;
+    sensor: { id?: string; enabled?: boolean } | undefined;
+  }[] = [
+    { type: "motion", title: "Motion Sensor", label: "motion sensor", sensor: motion },
+    { type: "light_level", title: "Light Sensor", label: "light sensor", sensor: lightLevel },
+    { type: "temperature", title: "Temperature Sensor", label: "temperature sensor", sensor: temperature },
+  ];
+
+  const currentSensitivity = motion?.sensitivity?.sensitivity;
+  const maxSensitivity = motion?.sensitivity?.sensitivity_max;
+
+  return (
+    <List.Item
+      icon={motion ? Icon.Eye : temperature ? Icon.Temperature : Icon.Sun}
+      title={deviceName}
+      subtitle={device?.product_data?.product_name}
+      keywords={[roomName]}
+      accessories={accessories}
+      actions={
+        <ActionPanel>
+          <ActionPanel.Section>
+            {sensors
+              .filter(({ sensor }) => sensor?.id)
+              .map(({ type, title, label, sensor }) => (
+                <Action
+                  key={type}
+                  icon={sensor!.enabled ? Icon.XMarkCircle : Icon.CheckCircle}
+                  title={`${sensor!.enabled ? "Disable" : "Enable"} ${title}`}
+                  onAction={() => handleSetEnabled(type, sensor!.id!, label, !sensor!.enabled)}
+                />
+              ))}
+          </ActionPanel.Section>
+
+          {motion && maxSensitivity !== undefined && (
+            <ActionPanel.Section title="Motion">
+              <ActionPanel.Submenu title="Set Motion Sensitivity" icon={Icon.Gauge}>
+                {Array.from({ length: maxSensitivity + 1 }, (_, value) => (
+                  <Action
+                    key={value}
+                    icon={value === currentSensitivity ? Icon.CheckCircle : Icon.Circle}
+                    title={`${value}${value === 0 ? " (Lowest)" : value === maxSensitivity ? " (Highest)" : ""}`}
+                    onAction={() => handleSetSensitivity(value)}
+                  />
+                ))}
+              </ActionPanel.Submenu>
+            </ActionPanel.Section>
+          )}
+
+          <ActionPanel.Section>
+            <Action
+              icon={Icon.ArrowClockwise}
+              title="Refresh"
+              shortcut={{ modifiers: ["cmd"], key: "r" }}
+              onAction={revalidate}
+            />
+            <SwitchBridgeSubmenu bridgeProfiles={bridgeProfiles} />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -11,24 +11,34 @@ import {
   List,
   Form,
   environment,
+  useNavigation,
 } from "@raycast/api";
 import fs from "fs";
 import os from "os";
 import path from "path";
 import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
-import { discoverBridges, authenticate, isLinkButtonError, getApplicationKey } from "./api/auth";
-import type { BridgeDiscovery } from "./api/types";
+import { discoverBridges, probeBridge, authenticate, isLinkButtonError, getApplicationKey } from "./api/auth";
+import type { BridgeDiscovery, BridgeProbeResult } from "./api/types";
+import { addBridgeProfile, setActiveBridgeProfile } from "./api/profiles";
+import { RenameBridgeProfileForm } from "./components/RenameBridgeProfileForm";
 
 type SetupState =
   | { step: "discovering" }
   | { step: "select-bridge"; bridges: BridgeDiscovery[] }
   | { step: "no-bridges" }
   | { step: "manual-entry" }
+  | { step: "probing"; bridgeIP: string }
+  | { step: "probe-failed"; bridgeIP: string; probe: Exclude<BridgeProbeResult, { status: "ok" }> }
   | { step: "waiting-for-button"; bridgeIP: string }
-  | { step: "success"; bridgeIP: string; applicationKey: string }
+  | { step: "success"; bridgeIP: string; applicationKey: string; profileName: string; savedToOpenHueConfig: boolean }
   | { step: "error"; message: string };
 
-function saveToOpenHueConfig(bridgeIP: string, applicationKey: string) {
+/**
+ * Store the credentials in ~/.openhue/config.yaml, unless it already points at another bridge.
+ * Additional bridges only live in the extension's bridge profiles.
+ * Returns whether the file was written.
+ */
+function saveToOpenHueConfig(bridgeIP: string, applicationKey: string, bridgeId: string): boolean {
   try {
     const configDir = path.join(os.homedir(), ".openhue");
     const configPath = path.join(configDir, "config.yaml");
@@ -48,19 +58,33 @@ function saveToOpenHueConfig(bridgeIP: string, applicationKey: string) {
       }
     }
 
+    const config = (typeof existing === "object" && existing !== null ? existing : {}) as Record<string, unknown>;
+
+    // Match by bridge id when recorded, so a bridge whose IP changed is updated rather than left stale
+    const isSameBridge =
+      typeof config.bridge_id === "string"
+        ? config.bridge_id.toLowerCase() === bridgeId.toLowerCase()
+        : config.bridge === bridgeIP;
+    if ("bridge" in config && !isSameBridge) {
+      return false;
+    }
+
     const updated = {
-      ...(typeof existing === "object" && existing !== null ? existing : {}),
+      ...config,
       bridge: bridgeIP,
       key: applicationKey,
+      bridge_id: bridgeId,
     } as Record<string, unknown>;
 
     fs.writeFileSync(configPath, stringifyYaml(updated), "utf-8");
+    return true;
   } catch (error) {
     console.error("[Setup] Failed to update ~/.openhue/config.yaml:", error);
     void showToast({
       style: Toast.Style.Failure,
       title: "Failed to update ~/.openhue/config.yaml",
     });
+    return false;
   }
 }
 
@@ -93,12 +117,21 @@ export default function SetupCommand() {
     }
   };
 
-  const startAuthentication = useCallback((bridgeIP: string) => {
+  const startAuthentication = useCallback(async (bridgeIP: string) => {
+    // Make sure a Hue bridge answers at this address before waiting for the link button
+    setState({ step: "probing", bridgeIP });
+    const probe = await probeBridge(bridgeIP);
+
+    if (probe.status !== "ok") {
+      setState({ step: "probe-failed", bridgeIP, probe });
+      return;
+    }
+
     setState({ step: "waiting-for-button", bridgeIP });
-    pollForAuthentication(bridgeIP);
+    pollForAuthentication(bridgeIP, probe.bridgeId);
   }, []);
 
-  const pollForAuthentication = async (bridgeIP: string) => {
+  const pollForAuthentication = async (bridgeIP: string, bridgeId: string) => {
     const maxAttempts = 30; // 30 seconds
     let attempts = 0;
     let lastError: string | null = null;
@@ -116,8 +149,10 @@ export default function SetupCommand() {
 
         const applicationKey = getApplicationKey(response);
         if (applicationKey) {
-          saveToOpenHueConfig(bridgeIP, applicationKey);
-          setState({ step: "success", bridgeIP, applicationKey });
+          const profile = addBridgeProfile({ bridgeIP, applicationKey, bridgeId });
+          setActiveBridgeProfile(profile.name);
+          const savedToOpenHueConfig = saveToOpenHueConfig(bridgeIP, applicationKey, bridgeId);
+          setState({ step: "success", bridgeIP, applicationKey, profileName: profile.name, savedToOpenHueConfig });
           await showToast({
             style: Toast.Style.Success,
             title: "Successfully connected to Hue Bridge!",
@@ -161,11 +196,32 @@ export default function SetupCommand() {
     case "select-bridge":
       return <SelectBridgeView bridges={state.bridges} onSelect={startAuthentication} onRetry={discoverBridgesAsync} />;
 
+    case "probing":
+      return <ProbingView bridgeIP={state.bridgeIP} />;
+
+    case "probe-failed":
+      return (
+        <BridgeDiagnosisView
+          bridgeIP={state.bridgeIP}
+          probe={state.probe}
+          onRetry={() => startAuthentication(state.bridgeIP)}
+          onManualEntry={() => setState({ step: "manual-entry" })}
+          onDiscover={discoverBridgesAsync}
+        />
+      );
+
     case "waiting-for-button":
       return <WaitingForButtonView bridgeIP={state.bridgeIP} onCancel={discoverBridgesAsync} />;
 
     case "success":
-      return <SuccessView bridgeIP={state.bridgeIP} applicationKey={state.applicationKey} />;
+      return (
+        <SuccessView
+          bridgeIP={state.bridgeIP}
+          applicationKey={state.applicationKey}
+          profileName={state.profileName}
+          savedToOpenHueConfig={state.savedToOpenHueConfig}
+        />
+      );
 
     case "error":
       return (
@@ -290,6 +346,74 @@ function SelectBridgeView({
   );
 }
 
+function ProbingView({ bridgeIP }: { bridgeIP: string }) {
+  return (
+    <Detail
+      isLoading={true}
+      markdown={`# Checking Bridge...
+
+Verifying that **${bridgeIP}** is a Philips Hue Bridge.`}
+    />
+  );
+}
+
+function BridgeDiagnosisView({
+  bridgeIP,
+  probe,
+  onRetry,
+  onManualEntry,
+  onDiscover,
+}: {
+  bridgeIP: string;
+  probe: Exclude<BridgeProbeResult, { status: "ok" }>;
+  onRetry: () => void;
+  onManualEntry: () => void;
+  onDiscover: () => void;
+}) {
+  const errorIcon = path.join(environment.assetsPath, "connect-ko.png");
+
+  const diagnoses = {
+    unreachable: {
+      title: "Bridge Unreachable",
+      advice: `**Please check that:**
+- The IP address \`${bridgeIP}\` is correct
+- Your Hue Bridge is powered on and connected to your network
+- Your computer is on the same network as the Bridge`,
+    },
+    "not-hue-bridge": {
+      title: "Not a Hue Bridge",
+      advice: `The device at \`${bridgeIP}\` is not a Philips Hue Bridge. Check the IP address in the Hue app under Settings → Hue Bridges.`,
+    },
+    "tls-mismatch": {
+      title: "Certificate Mismatch",
+      advice: `The bridge at \`${bridgeIP}\` did not present a valid Hue certificate, so the connection can't be trusted.
+
+- Update the bridge firmware in the Hue app
+- Make sure no other device took over this IP address`,
+    },
+  };
+  const diagnosis = diagnoses[probe.status];
+
+  return (
+    <Detail
+      markdown={`# ${diagnosis.title}
+
+![Error](${errorIcon})
+
+> ${probe.message}
+
+${diagnosis.advice}`}
+      actions={
+        <ActionPanel>
+          <Action title="Retry" icon={Icon.ArrowClockwise} onAction={onRetry} />
+          <Action title="Enter IP Manually" icon={Icon.Pencil} onAction={onManualEntry} />
+          <Action title="Retry Discovery" icon={Icon.MagnifyingGlass} onAction={onDiscover} />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
 function WaitingForButtonView({ bridgeIP, onCancel }: { bridgeIP: string; onCancel: () => void }) {
   const waitingIcon = path.join(environment.assetsPath, "connect-waiting.png");
 
@@ -313,8 +437,20 @@ Waiting for button press...`}
   );
 }
 
-function SuccessView({ bridgeIP, applicationKey }: { bridgeIP: string; applicationKey: string }) {
+function SuccessView({
+  bridgeIP,
+  applicationKey,
+  profileName: savedProfileName,
+  savedToOpenHueConfig,
+}: {
+  bridgeIP: string;
+  applicationKey: string;
+  profileName: string;
+  savedToOpenHueConfig: boolean;
+}) {
   const successIcon = path.join(environment.assetsPath, "connect-ok.png");
+  const { push } = useNavigation();
+  const [profileName, setProfileName] = useState(savedProfileName);
 
   const handleCopyCredentials = async () => {
     await Clipboard.copy(`Bridge IP: ${bridgeIP}\nApplication Key: ${applicationKey}`);
@@ -336,19 +472,28 @@ Your Hue Bridge has been successfully connected.
 
 **Application Key:** \`${applicationKey}\`
 
-These credentials have been saved to \`~/.openhue/config.yaml\`.
+These credentials have been saved as the bridge profile **${profileName}**, which is now the active bridge.${
+        savedToOpenHueConfig
+          ? " They have also been saved to `~/.openhue/config.yaml`."
+          : " `~/.openhue/config.yaml` already points at another bridge and was left unchanged."
+      }
 
 ---
 
 ## Next Steps
 
 1. Start using the extension to control your lights.
-2. (Optional) **Open Extension Preferences** if you want to also store the credentials there.
+2. (Optional) **Rename Bridge** to give this bridge a recognizable name.
+3. Use **Switch Bridge** in any command to move between your configured bridges.
 
-> If \`~/.openhue/config.yaml\` already existed, its \`bridge\` and \`key\` values have been updated.
 > **Important:** Save your Application Key securely. You will need it if you reinstall the extension.`}
       actions={
         <ActionPanel>
+          <Action
+            title="Rename Bridge"
+            icon={Icon.Pencil}
+            onAction={() => push(<RenameBridgeProfileForm profileName={profileName} onRename={setProfileName} />)}
+          />
           <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
           <Action
             title="Copy Credentials"
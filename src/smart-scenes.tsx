@@ -0,0 +1,515 @@
+import { useState } from "react";
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  Color,
+  openExtensionPreferences,
+  Form,
+  useNavigation,
+} from "@raycast/api";
+import { useSmartScenesWithGroups, getRoomName } from "./hooks/useHue";
+import {
+  activateSmartScene,
+  deactivateSmartScene,
+  createSmartScene,
+  getActiveTimeslot,
+  validateTimeslots,
+  WEEKDAYS,
+} from "./api/smart-scenes";
+import type {
+  SmartSceneGet as SmartScene,
+  SmartSceneTimeslotGet as Timeslot,
+  SceneGet as Scene,
+  RoomGet as Room,
+  Weekday,
+} from "./api/generated/src/models";
+import { getCredentials } from "./api/client";
+import { SwitchBridgeSubmenu } from "./components/SwitchBridgeSubmenu";
+import { useBridgeProfiles, BridgeProfiles } from "./hooks/useBridgeProfiles";
+
+export default function SmartScenesCommand() {
+  const credentials = getCredentials();
+
+  if (!credentials) {
+    return <NoBridgeConfigured />;
+  }
+
+  return <SmartScenesList />;
+}
+
+function NoBridgeConfigured() {
+  return (
+    <List>
+      <List.EmptyView
+        icon={Icon.ExclamationMark}
+        title="Hue Bridge Not Configured"
+        description="Please run 'Setup Hue Bridge' to connect to your Philips Hue system."
+        actions={
+          <ActionPanel>
+            <Action title="Open Extension Preferences" onAction={openExtensionPreferences} />
+          </ActionPanel>
+        }
+      />
+    </List>
+  );
+}
+
+function SmartScenesList() {
+  const { smartScenes, scenes, rooms, zones, isLoading, error, revalidate } = useSmartScenesWithGroups();
+  const bridgeProfiles = useBridgeProfiles();
+  const [isShowingDetail, setIsShowingDetail] = useState(false);
+
+  if (error) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to load smart scenes",
+      message: error.message,
+    });
+  }
+
+  // Group smart scenes by the room or zone they belong to
+  const smartScenesByGroup = new Map<string, SmartScene[]>();
+  for (const smartScene of smartScenes) {
+    const groupId = smartScene.group?.rid;
+    if (!groupId) continue;
+
+    const existing = smartScenesByGroup.get(groupId) ?? [];
+    existing.push(smartScene);
+    smartScenesByGroup.set(groupId, existing);
+  }
+
+  const sortedGroups = Array.from(smartScenesByGroup.entries())
+    .map(([groupId, groupSmartScenes]) => ({
+      groupId,
+      groupName: getRoomName(groupId, [...rooms, ...zones]),
+      smartScenes: groupSmartScenes.sort((a, b) => (a.metadata?.name ?? "").localeCompare(b.metadata?.name ?? "")),
+    }))
+    .sort((a, b) => a.groupName.localeCompare(b.groupName));
+
+  return (
+    <List isLoading={isLoading} isShowingDetail={isShowingDetail} searchBarPlaceholder="Search smart scenes...">
+      <List.EmptyView
+        icon={Icon.Calendar}
+        title="No Smart Scenes"
+        description="Create a smart scene to switch scenes automatically throughout the day."
+        actions={
+          <ActionPanel>
+            <Action.Push
+              icon={Icon.Plus}
+              title="Create Smart Scene"
+              target={<SmartSceneForm scenes={scenes} rooms={rooms} zones={zones} revalidate={revalidate} />}
+            />
+          </ActionPanel>
+        }
+      />
+      {sortedGroups.map(({ groupId, groupName, smartScenes: groupSmartScenes }) => (
+        <List.Section key={groupId} title={groupName} subtitle={`${groupSmartScenes.length} smart scenes`}>
+          {groupSmartScenes.map((smartScene) => (
+            <SmartSceneListItem
+              key={smartScene.id}
+              smartScene={smartScene}
+              groupName={groupName}
+              scenes={scenes}
+              rooms={rooms}
+              zones={zones}
+              isShowingDetail={isShowingDetail}
+              onToggleDetail={() => setIsShowingDetail((value) => !value)}
+              revalidate={revalidate}
+              bridgeProfiles={bridgeProfiles}
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
+
+function SmartSceneListItem({
+  smartScene,
+  groupName,
+  scenes,
+  rooms,
+  zones,
+  isShowingDetail,
+  onToggleDetail,
+  revalidate,
+  bridgeProfiles,
+}: {
+  smartScene: SmartScene;
+  groupName: string;
+  scenes: Scene[];
+  rooms: Room[];
+  zones: Room[];
+  isShowingDetail: boolean;
+  onToggleDetail: () => void;
+  revalidate: () => Promise<void>;
+  bridgeProfiles: BridgeProfiles;
+}) {
+  const isActive = smartScene.state === "active";
+  const smartSceneName = smartScene.metadata?.name ?? "Unknown Smart Scene";
+  const activeTimeslot = isActive ? getActiveTimeslot(smartScene) : null;
+  const getSceneName = (timeslot: Timeslot) =>
+    scenes.find((s) => s.id === timeslot.target?.rid)?.metadata?.name ?? "Unknown Scene";
+
+  const accessories: List.Item.Accessory[] = [];
+
+  if (activeTimeslot && !isShowingDetail) {
+    accessories.push({
+      text: `${formatStartTime(activeTimeslot)} • ${getSceneName(activeTimeslot)}`,
+      tooltip: "Active timeslot",
+    });
+  }
+
+  accessories.push({
+    icon: isActive
+      ? { source: Icon.Circle, tintColor: Color.Green }
+      : { source: Icon.CircleDisabled, tintColor: Color.SecondaryText },
+    tooltip: isActive ? "Active" : "Inactive",
+  });
+
+  const handleRecall = async (action: "activate" | "deactivate") => {
+    if (!smartScene.id) return;
+    try {
+      if (action === "activate") {
+        await activateSmartScene(smartScene.id);
+      } else {
+        await deactivateSmartScene(smartScene.id);
+      }
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Smart scene "${smartSceneName}" ${action === "activate" ? "activated" : "deactivated"}`,
+      });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Failed to ${action} smart scene`,
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <List.Item
+      icon={Icon.Calendar}
+      title={smartSceneName}
+      subtitle={isShowingDetail ? undefined : groupName}
+      keywords={[groupName]}
+      accessories={accessories}
+      detail={<List.Item.Detail markdown={buildScheduleMarkdown(smartScene, getSceneName)} />}
+      actions={
+        <ActionPanel>
+          <ActionPanel.Section>
+            {isActive ? (
+              <Action icon={Icon.Stop} title="Deactivate Smart Scene" onAction={() => handleRecall("deactivate")} />
+            ) : (
+              <Action icon={Icon.Play} title="Activate Smart Scene" onAction={() => handleRecall("activate")} />
+            )}
+            <Action
+              icon={Icon.Sidebar}
+              title={isShowingDetail ? "Hide Schedule" : "Show Schedule"}
+              shortcut={{ modifiers: ["cmd"], key: "d" }}
+              onAction={onToggleDetail}
+            />
+            <Action.Push
+              icon={Icon.Plus}
+              title="Create Smart Scene"
+              shortcut={{ modifiers: ["cmd"], key: "n" }}
+              target={<SmartSceneForm scenes={scenes} rooms={rooms} zones={zones} revalidate={revalidate} />}
+            />
+          </ActionPanel.Section>
+
+          <ActionPanel.Section>
+            <Action
+              icon={Icon.ArrowClockwise}
+              title="Refresh"
+              shortcut={{ modifiers: ["cmd"], key: "r" }}
+              onAction={revalidate}
+            />
+            <SwitchBridgeSubmenu bridgeProfiles={bridgeProfiles} />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+interface TimeslotDraft {
+  kind: "time" | "sunset";
+  time: string;
+  sceneId: string;
+}
+
+interface SmartSceneFormValues {
+  name: string;
+  weekdays: string[];
+  transitionDuration: string;
+}
+
+function SmartSceneForm({
+  scenes,
+  rooms,
+  zones,
+  revalidate,
+}: {
+  scenes: Scene[];
+  rooms: Room[];
+  zones: Room[];
+  revalidate: () => Promise<void>;
+}) {
+  const { pop } = useNavigation();
+  const [groupId, setGroupId] = useState<string>(rooms[0]?.id ?? zones[0]?.id ?? "");
+  const [timeslots, setTimeslots] = useState<TimeslotDraft[]>([{ kind: "time", time: "07:00", sceneId: "" }]);
+  const [nameError, setNameError] = useState<string | undefined>();
+  const [weekdaysError, setWeekdaysError] = useState<string | undefined>();
+  const [transitionError, setTransitionError] = useState<string | undefined>();
+
+  const byName = (a: { metadata?: { name?: string } }, b: { metadata?: { name?: string } }) =>
+    (a.metadata?.name ?? "").localeCompare(b.metadata?.name ?? "");
+  const groupScenes = scenes.filter((scene) => scene.group?.rid === groupId).sort(byName);
+  const groupType = zones.some((zone) => zone.id === groupId) ? "zone" : "room";
+
+  const updateTimeslot = (index: number, update: Partial<TimeslotDraft>) => {
+    setTimeslots((current) => current.map((slot, i) => (i === index ? { ...slot, ...update } : slot)));
+  };
+
+  const handleGroupChange = (value: string) => {
+    setGroupId(value);
+    // Scenes belong to a single room or zone, so previous picks no longer apply
+    setTimeslots((current) => current.map((slot) => ({ ...slot, sceneId: "" })));
+  };
+
+  const handleSubmit = async (values: SmartSceneFormValues) => {
+    const name = values.name.trim();
+    if (!name) {
+      setNameError("Name is required");
+      return;
+    }
+    if (values.weekdays.length === 0) {
+      setWeekdaysError("Select at least one day");
+      return;
+    }
+    const transitionSeconds = Number(values.transitionDuration || "0");
+    if (Number.isNaN(transitionSeconds) || transitionSeconds < 0) {
+      setTransitionError("Enter a number of seconds");
+      return;
+    }
+
+    const parsed: Timeslot[] = [];
+    for (const [index, slot] of timeslots.entries()) {
+      if (slot.kind === "sunset") {
+        parsed.push({ start_time: { kind: "sunset" }, target: { rid: slot.sceneId, rtype: "scene" } });
+        continue;
+      }
+
+      const match = /^(\d{1,2}):(\d{2})$/.exec(slot.time.trim());
+      const hour = match ? Number(match[1]) : NaN;
+      const minute = match ? Number(match[2]) : NaN;
+      if (!match || hour > 23 || minute > 59) {
+        await showToast({ style: Toast.Style.Failure, title: `Timeslot ${index + 1} needs a time like 07:30` });
+        return;
+      }
+      parsed.push({
+        start_time: { kind: "time", time: { hour, minute, second: 0 } },
+        target: { rid: slot.sceneId, rtype: "scene" },
+      });
+    }
+
+    const validationError = validateTimeslots(parsed);
+    if (validationError) {
+      await showToast({ style: Toast.Style.Failure, title: "Invalid schedule", message: validationError });
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Creating smart scene..." });
+
+    try {
+      await createSmartScene({
+        type: "smart_scene",
+        metadata: { name },
+        group: { rid: groupId, rtype: groupType },
+        week_timeslots: [{ timeslots: parsed, recurrence: values.weekdays as Weekday[] }],
+        transition_duration: Math.round(transitionSeconds * 1000),
+      });
+      toast.style = Toast.Style.Success;
+      toast.title = `Smart scene "${name}" created`;
+      await revalidate();
+      pop();
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to create smart scene";
+      toast.message = error instanceof Error ? error.message : "Unknown error";
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle="Create Smart Scene"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Create Smart Scene" icon={Icon.Check} onSubmit={handleSubmit} />
+          <Action
+            icon={Icon.Plus}
+            title="Add Timeslot"
+            shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+            onAction={() => setTimeslots((current) => [...current, { kind: "time", time: "", sceneId: "" }])}
+          />
+          {timeslots.length > 1 && (
+            <Action
+              icon={Icon.Minus}
+              title="Remove Last Timeslot"
+              shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
+              onAction={() => setTimeslots((current) => current.slice(0, -1))}
+            />
+          )}
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="e.g., Natural Light"
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      <Form.Dropdown id="groupId" title="Room or Zone" value={groupId} onChange={handleGroupChange}>
+        <Form.Dropdown.Section title="Rooms">
+          {[...rooms].sort(byName).map((room) => (
+            <Form.Dropdown.Item key={room.id} value={room.id!} title={room.metadata?.name ?? "Unknown Room"} />
+          ))}
+        </Form.Dropdown.Section>
+        <Form.Dropdown.Section title="Zones">
+          {[...zones].sort(byName).map((zone) => (
+            <Form.Dropdown.Item key={zone.id} value={zone.id!} title={zone.metadata?.name ?? "Unknown Zone"} />
+          ))}
+        </Form.Dropdown.Section>
+      </Form.Dropdown>
+      <Form.TagPicker
+        id="weekdays"
+        title="Days"
+        defaultValue={WEEKDAYS}
+        error={weekdaysError}
+        onChange={() => setWeekdaysError(undefined)}
+      >
+        {WEEKDAYS.map((weekday) => (
+          <Form.TagPicker.Item key={weekday} value={weekday} title={formatWeekday(weekday)} />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField
+        id="transitionDuration"
+        title="Transition (seconds)"
+        placeholder="0"
+        info="How long lights take to fade into the scene of a new timeslot."
+        error={transitionError}
+        onChange={() => setTransitionError(undefined)}
+      />
+
+      {timeslots.map((slot, index) => (
+        <TimeslotFields
+          key={index}
+          index={index}
+          slot={slot}
+          scenes={groupScenes}
+          onChange={(update) => updateTimeslot(index, update)}
+        />
+      ))}
+
+      <Form.Description text="Press ⌘⇧N to add a timeslot. Timeslots must be listed in chronological order." />
+    </Form>
+  );
+}
+
+function TimeslotFields({
+  index,
+  slot,
+  scenes,
+  onChange,
+}: {
+  index: number;
+  slot: TimeslotDraft;
+  scenes: Scene[];
+  onChange: (update: Partial<TimeslotDraft>) => void;
+}) {
+  return (
+    <>
+      <Form.Separator />
+      <Form.Dropdown
+        id={`kind-${index}`}
+        title={`Timeslot ${index + 1}`}
+        value={slot.kind}
+        onChange={(value) => onChange({ kind: value as TimeslotDraft["kind"] })}
+      >
+        <Form.Dropdown.Item value="time" title="At a Time" icon={Icon.Clock} />
+        <Form.Dropdown.Item value="sunset" title="At Sunset" icon={Icon.Moon} />
+      </Form.Dropdown>
+      {slot.kind === "time" && (
+        <Form.TextField
+          id={`time-${index}`}
+          title="Start Time"
+          placeholder="HH:MM"
+          value={slot.time}
+          onChange={(value) => onChange({ time: value })}
+        />
+      )}
+      <Form.Dropdown
+        id={`scene-${index}`}
+        title="Scene"
+        value={slot.sceneId}
+        onChange={(value) => onChange({ sceneId: value })}
+      >
+        <Form.Dropdown.Item value="" title="Select a Scene" />
+        {scenes.map((scene) => (
+          <Form.Dropdown.Item key={scene.id} value={scene.id!} title={scene.metadata?.name ?? "Unknown Scene"} />
+        ))}
+      </Form.Dropdown>
+    </>
+  );
+}
+
+function buildScheduleMarkdown(smartScene: SmartScene, getSceneName: (timeslot: Timeslot) => string): string {
+  const activeTimeslot = smartScene.state === "active" ? getActiveTimeslot(smartScene) : null;
+  const lines = [`# ${smartScene.metadata?.name ?? "Unknown Smart Scene"}`, ""];
+
+  lines.push(`**State:** ${smartScene.state === "active" ? "Active" : "Inactive"}`, "");
+  if (activeTimeslot && smartScene.active_timeslot) {
+    lines.push(
+      `**Current timeslot:** ${getSceneName(activeTimeslot)} since ${formatStartTime(activeTimeslot)} (${formatWeekday(smartScene.active_timeslot.weekday)})`,
+      "",
+    );
+  }
+  if (smartScene.transition_duration) {
+    lines.push(`**Transition:** ${Math.round(smartScene.transition_duration / 1000)}s`, "");
+  }
+
+  lines.push("## Weekly Schedule", "");
+
+  for (const day of smartScene.week_timeslots ?? []) {
+    const weekdays = [...(day.recurrence ?? [])].sort((a, b) => WEEKDAYS.indexOf(a) - WEEKDAYS.indexOf(b));
+    lines.push(`### ${weekdays.map(formatWeekday).join(", ")}`, "", "| Start | Scene |", "| --- | --- |");
+
+    for (const timeslot of day.timeslots ?? []) {
+      const marker = timeslot === activeTimeslot ? " ▶" : "";
+      lines.push(`| ${formatStartTime(timeslot)}${marker} | ${getSceneName(timeslot)} |`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+function formatStartTime(timeslot: Timeslot): string {
+  if (timeslot.start_time?.kind === "sunset") {
+    return "Sunset";
+  }
+  const hour = timeslot.start_time?.time?.hour ?? 0;
+  const minute = timeslot.start_time?.time?.minute ?? 0;
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+function formatWeekday(weekday: Weekday): string {
+  return weekday.charAt(0).toUpperCase() + weekday.slice(1);
+}
@@ -0,0 +1,46 @@
+import { Icon } from "@raycast/api";
+
+const ARCHETYPE_ICONS: Record<string, Icon> = {
+  living_room: Icon.House,
+  kitchen: Icon.Mug,
+  dining: Icon.Mug,
+  bedroom: Icon.Moon,
+  kids_bedroom: Icon.TwoPeople,
+  bathroom: Icon.Droplets,
+  office: Icon.Desktop,
+  gym: Icon.Heartbeat,
+  hallway: Icon.ArrowRight,
+  garage: Icon.Car,
+  garden: Icon.Tree,
+  terrace: Icon.Sun,
+  balcony: Icon.Sun,
+  front_door: Icon.Key,
+  staircase: Icon.ChevronUp,
+  downstairs: Icon.ChevronDown,
+  upstairs: Icon.ChevronUp,
+  top_floor: Icon.ChevronUp,
+  lounge: Icon.House,
+  tv: Icon.Monitor,
+  computer: Icon.Desktop,
+  music: Icon.Music,
+  reading: Icon.Book,
+  closet: Icon.Box,
+  storage: Icon.Box,
+  laundry_room: Icon.Box,
+  pool: Icon.Droplets,
+};
+
+/**
+ * Get the icon of a room or zone archetype, or the fallback for archetypes without one.
+ */
+export function getArchetypeIcon(archetype: string, fallback: Icon = Icon.House): Icon {
+  return ARCHETYPE_ICONS[archetype] ?? fallback;
+}
+
+// Turn an archetype such as "living_room" into "Living Room"
+export function formatArchetype(archetype: string): string {
+  return archetype
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
@@ -1,7 +1,13 @@
 import { GamutPosition } from "../api/types";
 
+export interface Gamut {
+  red: GamutPosition;
+  green: GamutPosition;
+  blue: GamutPosition;
+}
+
 // Default gamut C (most modern Hue bulbs)
-const DEFAULT_GAMUT = {
+const DEFAULT_GAMUT: Gamut = {
   red: { x: 0.6915, y: 0.3083 },
   green: { x: 0.17, y: 0.7 },
   blue: { x: 0.1532, y: 0.0475 },
@@ -10,8 +16,9 @@ const DEFAULT_GAMUT = {
 /**
  * Convert hex color string to CIE XY color space
  * Based on Philips Hue color conversion algorithm
+ * The result is clamped to the given gamut, by default gamut C
  */
-export function hexToXY(hex: string): GamutPosition {
+export function hexToXY(hex: string, gamut: Gamut = DEFAULT_GAMUT): GamutPosition {
   // Remove # if present
   const cleanHex = hex.replace(/^#/, "");
 
@@ -40,7 +47,7 @@ export function hexToXY(hex: string): GamutPosition {
   let y = Y / sum;
 
   // Clamp to gamut
-  const point = clampToGamut({ x, y }, DEFAULT_GAMUT);
+  const point = clampToGamut({ x, y }, gamut);
   x = point.x;
   y = point.y;
 
@@ -188,6 +195,224 @@ function clampToGamut(
   return closestBR;
 }
 
+// CSS named colors
+const CSS_COLORS: Record<string, string> = {
+  aliceblue: "#f0f8ff",
+  antiquewhite: "#faebd7",
+  aqua: "#00ffff",
+  aquamarine: "#7fffd4",
+  azure: "#f0ffff",
+  beige: "#f5f5dc",
+  bisque: "#ffe4c4",
+  black: "#000000",
+  blanchedalmond: "#ffebcd",
+  blue: "#0000ff",
+  blueviolet: "#8a2be2",
+  brown: "#a52a2a",
+  burlywood: "#deb887",
+  cadetblue: "#5f9ea0",
+  chartreuse: "#7fff00",
+  chocolate: "#d2691e",
+  coral: "#ff7f50",
+  cornflowerblue: "#6495ed",
+  cornsilk: "#fff8dc",
+  crimson: "#dc143c",
+  cyan: "#00ffff",
+  darkblue: "#00008b",
+  darkcyan: "#008b8b",
+  darkgoldenrod: "#b8860b",
+  darkgray: "#a9a9a9",
+  darkgreen: "#006400",
+  darkgrey: "#a9a9a9",
+  darkkhaki: "#bdb76b",
+  darkmagenta: "#8b008b",
+  darkolivegreen: "#556b2f",
+  darkorange: "#ff8c00",
+  darkorchid: "#9932cc",
+  darkred: "#8b0000",
+  darksalmon: "#e9967a",
+  darkseagreen: "#8fbc8f",
+  darkslateblue: "#483d8b",
+  darkslategray: "#2f4f4f",
+  darkslategrey: "#2f4f4f",
+  darkturquoise: "#00ced1",
+  darkviolet: "#9400d3",
+  deeppink: "#ff1493",
+  deepskyblue: "#00bfff",
+  dimgray: "#696969",
+  dimgrey: "#696969",
+  dodgerblue: "#1e90ff",
+  firebrick: "#b22222",
+  floralwhite: "#fffaf0",
+  forestgreen: "#228b22",
+  fuchsia: "#ff00ff",
+  gainsboro: "#dcdcdc",
+  ghostwhite: "#f8f8ff",
+  gold: "#ffd700",
+  goldenrod: "#daa520",
+  gray: "#808080",
+  green: "#008000",
+  greenyellow: "#adff2f",
+  grey: "#808080",
+  honeydew: "#f0fff0",
+  hotpink: "#ff69b4",
+  indianred: "#cd5c5c",
+  indigo: "#4b0082",
+  ivory: "#fffff0",
+  khaki: "#f0e68c",
+  lavender: "#e6e6fa",
+  lavenderblush: "#fff0f5",
+  lawngreen: "#7cfc00",
+  lemonchiffon: "#fffacd",
+  lightblue: "#add8e6",
+  lightcoral: "#f08080",
+  lightcyan: "#e0ffff",
+  lightgoldenrodyellow: "#fafad2",
+  lightgray: "#d3d3d3",
+  lightgreen: "#90ee90",
+  lightgrey: "#d3d3d3",
+  lightpink: "#ffb6c1",
+  lightsalmon: "#ffa07a",
+  lightseagreen: "#20b2aa",
+  lightskyblue: "#87cefa",
+  lightslategray: "#778899",
+  lightslategrey: "#778899",
+  lightsteelblue: "#b0c4de",
+  lightyellow: "#ffffe0",
+  lime: "#00ff00",
+  limegreen: "#32cd32",
+  linen: "#faf0e6",
+  magenta: "#ff00ff",
+  maroon: "#800000",
+  mediumaquamarine: "#66cdaa",
+  mediumblue: "#0000cd",
+  mediumorchid: "#ba55d3",
+  mediumpurple: "#9370db",
+  mediumseagreen: "#3cb371",
+  mediumslateblue: "#7b68ee",
+  mediumspringgreen: "#00fa9a",
+  mediumturquoise: "#48d1cc",
+  mediumvioletred: "#c71585",
+  midnightblue: "#191970",
+  mintcream: "#f5fffa",
+  mistyrose: "#ffe4e1",
+  moccasin: "#ffe4b5",
+  navajowhite: "#ffdead",
+  navy: "#000080",
+  oldlace: "#fdf5e6",
+  olive: "#808000",
+  olivedrab: "#6b8e23",
+  orange: "#ffa500",
+  orangered: "#ff4500",
+  orchid: "#da70d6",
+  palegoldenrod: "#eee8aa",
+  palegreen: "#98fb98",
+  paleturquoise: "#afeeee",
+  palevioletred: "#db7093",
+  papayawhip: "#ffefd5",
+  peachpuff: "#ffdab9",
+  peru: "#cd853f",
+  pink: "#ffc0cb",
+  plum: "#dda0dd",
+  powderblue: "#b0e0e6",
+  purple: "#800080",
+  rebeccapurple: "#663399",
+  red: "#ff0000",
+  rosybrown: "#bc8f8f",
+  royalblue: "#4169e1",
+  saddlebrown: "#8b4513",
+  salmon: "#fa8072",
+  sandybrown: "#f4a460",
+  seagreen: "#2e8b57",
+  seashell: "#fff5ee",
+  sienna: "#a0522d",
+  silver: "#c0c0c0",
+  skyblue: "#87ceeb",
+  slateblue: "#6a5acd",
+  slategray: "#708090",
+  slategrey: "#708090",
+  snow: "#fffafa",
+  springgreen: "#00ff7f",
+  steelblue: "#4682b4",
+  tan: "#d2b48c",
+  teal: "#008080",
+  thistle: "#d8bfd8",
+  tomato: "#ff6347",
+  turquoise: "#40e0d0",
+  violet: "#ee82ee",
+  wheat: "#f5deb3",
+  white: "#ffffff",
+  whitesmoke: "#f5f5f5",
+  yellow: "#ffff00",
+  yellowgreen: "#9acd32",
+};
+
+function toHexComponent(value: number): string {
+  return Math.max(0, Math.min(255, Math.round(value)))
+    .toString(16)
+    .padStart(2, "0");
+}
+
+// Convert HSL (hue in degrees, saturation and lightness in 0-1) to RGB components in 0-255
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return [f(0), f(8), f(4)];
+}
+
+/**
+ * Parse a color written as hex (#f80, #ff8800), rgb(255, 136, 0), hsl(32, 100%, 50%) or a CSS color name.
+ * Returns the color as a hex string, or null if it isn't a valid color.
+ */
+export function parseColor(input: string): string | null {
+  const value = input.trim().toLowerCase();
+
+  if (CSS_COLORS[value]) {
+    return CSS_COLORS[value];
+  }
+
+  const hex = value.match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? [...hex[1]].map((digit) => digit + digit).join("") : hex[1];
+    return `#${digits}`;
+  }
+
+  const rgb = value.match(/^rgb\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)$/);
+  if (rgb) {
+    const components = rgb.slice(1).map(Number);
+    if (components.some((component) => component > 255)) return null;
+    return `#${components.map(toHexComponent).join("")}`;
+  }
+
+  const hsl = value.match(/^hsl\(\s*(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)%\s*,\s*(\d+(?:\.\d+)?)%\s*\)$/);
+  if (hsl) {
+    const [h, s, l] = hsl.slice(1).map(Number);
+    if (s > 100 || l > 100) return null;
+    return `#${hslToRgb(h % 360, s / 100, l / 100)
+      .map(toHexComponent)
+      .join("")}`;
+  }
+
+  return null;
+}
+
+// Approximate xy color of a color temperature, as color lights report it
+export function mirekToXY(mirek: number): GamutPosition {
+  return hexToXY(mirekToHex(mirek));
+}
+
+// Convert between color temperature in Kelvin and mirek (mirek = 1,000,000 / Kelvin)
+export function kelvinToMirek(kelvin: number): number {
+  return Math.round(1000000 / kelvin);
+}
+
+export function mirekToKelvin(mirek: number): number {
+  return Math.round(1000000 / mirek);
+}
+
 // Predefined colors for quick selection
 export const PRESET_COLORS = [
   { name: "Red", hex: "#FF0000" },
@@ -209,3 +434,7 @@ export const PRESET_TEMPERATURES = [
   { name: "Warm White", mirek: 400 },
   { name: "Candlelight", mirek: 500 },
 ] as const;
+
+// Step sizes of the Brighter/Dimmer and Warmer/Cooler actions
+export const BRIGHTNESS_STEP = 10;
+export const MIREK_STEP = 50;
@@ -0,0 +1,466 @@
+import { useState } from "react";
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  Color,
+  openExtensionPreferences,
+  Form,
+  Alert,
+  confirmAlert,
+  useNavigation,
+} from "@raycast/api";
+import {
+  useZonesWithGroupedLights,
+  useLightsWithRooms,
+  findGroupedLightForRoom,
+  findRoomForLight,
+} from "./hooks/useHue";
+import { toggleRoom, setRoomBrightness } from "./api/rooms";
+import { activateScene } from "./api/scenes";
+import { createZone, updateZone, deleteZone } from "./api/zones";
+import { RoomArchetype } from "./api/generated/src/models";
+import type {
+  RoomGet as Zone,
+  GroupedLightGet as GroupedLight,
+  SceneGet as Scene,
+  RoomPut as ZonePut,
+} from "./api/generated/src/models";
+import { getCredentials } from "./api/client";
+import { SwitchBridgeSubmenu } from "./components/SwitchBridgeSubmenu";
+import { useBridgeProfiles, BridgeProfiles } from "./hooks/useBridgeProfiles";
+import { SaveSceneForm } from "./components/SaveSceneForm";
+import { getArchetypeIcon, formatArchetype } from "./utils/archetype";
+
+export default function ZonesCommand() {
+  const credentials = getCredentials();
+
+  if (!credentials) {
+    return <NoBridgeConfigured />;
+  }
+
+  return <ZonesList />;
+}
+
+function NoBridgeConfigured() {
+  return (
+    <List>
+      <List.EmptyView
+        icon={Icon.ExclamationMark}
+        title="Hue Bridge Not Configured"
+        description="Please run 'Setup Hue Bridge' to connect to your Philips Hue system."
+        actions={
+          <ActionPanel>
+            <Action title="Open Extension Preferences" onAction={openExtensionPreferences} />
+          </ActionPanel>
+        }
+      />
+    </List>
+  );
+}
+
+function ZonesList() {
+  const { zones, groupedLights, scenes, isLoading, error, revalidate } = useZonesWithGroupedLights();
+  const bridgeProfiles = useBridgeProfiles();
+
+  if (error) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to load zones",
+      message: error.message,
+    });
+  }
+
+  // Sort zones by name
+  const sortedZones = [...zones].sort((a, b) => (a.metadata?.name ?? "").localeCompare(b.metadata?.name ?? ""));
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search zones...">
+      <List.EmptyView
+        icon={Icon.Layers}
+        title="No Zones"
+        description="Group lights across rooms into a zone."
+        actions={
+          <ActionPanel>
+            <Action.Push icon={Icon.Plus} title="Create Zone" target={<ZoneForm revalidate={revalidate} />} />
+          </ActionPanel>
+        }
+      />
+      {sortedZones.map((zone) => {
+        const groupedLight = findGroupedLightForRoom(zone, groupedLights);
+        const zoneScenes = scenes.filter((s) => s.group?.rid === zone.id);
+        return (
+          <ZoneListItem
+            key={zone.id}
+            zone={zone}
+            groupedLight={groupedLight}
+            scenes={zoneScenes}
+            revalidate={revalidate}
+            bridgeProfiles={bridgeProfiles}
+          />
+        );
+      })}
+    </List>
+  );
+}
+
+function ZoneListItem({
+  zone,
+  groupedLight,
+  scenes,
+  revalidate,
+  bridgeProfiles,
+}: {
+  zone: Zone;
+  groupedLight: GroupedLight | undefined;
+  scenes: Scene[];
+  revalidate: () => Promise<void>;
+  bridgeProfiles: BridgeProfiles;
+}) {
+  const isOn = groupedLight?.on?.on ?? false;
+  const brightness = groupedLight?.dimming?.brightness ?? 100;
+  // Unlike rooms, zones group individual lights rather than devices
+  const lightCount = zone.children?.filter((c) => c.rtype === "light").length ?? 0;
+  const zoneName = zone.metadata?.name ?? "Unknown Zone";
+  const zoneArchetype = zone.metadata?.archetype ?? "other";
+
+  // Get archetype icon
+  const archetypeIcon = getArchetypeIcon(zoneArchetype, Icon.Layers);
+
+  const accessories: List.Item.Accessory[] = [];
+
+  if (groupedLight?.dimming) {
+    accessories.push({ text: `${Math.round(brightness)}%` });
+  }
+
+  accessories.push({ text: `${lightCount} lights` });
+
+  accessories.push({
+    icon: isOn
+      ? { source: Icon.Circle, tintColor: Color.Green }
+      : { source: Icon.CircleDisabled, tintColor: Color.SecondaryText },
+    tooltip: isOn ? "On" : "Off",
+  });
+
+  const handleToggle = async () => {
+    if (!groupedLight?.id) return;
+
+    try {
+      await toggleRoom(groupedLight.id, !isOn);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${zoneName} turned ${isOn ? "off" : "on"}`,
+      });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to toggle zone",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const handleSetBrightness = async (value: number) => {
+    if (!groupedLight?.id) return;
+
+    try {
+      await setRoomBrightness(groupedLight.id, value);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${zoneName} brightness set to ${value}%`,
+      });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to set brightness",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!zone.id) return;
+
+    const confirmed = await confirmAlert({
+      title: `Delete "${zoneName}"?`,
+      message: "The zone and its scenes will be removed from the bridge. The lights themselves are not affected.",
+      icon: Icon.Trash,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteZone(zone.id);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${zoneName} deleted`,
+      });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to delete zone",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const handleActivateScene = async (scene: Scene) => {
+    if (!scene.id) return;
+    try {
+      await activateScene(scene.id);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Scene "${scene.metadata?.name ?? "Unknown"}" activated`,
+      });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to activate scene",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <List.Item
+      icon={archetypeIcon}
+      title={zoneName}
+      subtitle={formatArchetype(zoneArchetype)}
+      accessories={accessories}
+      actions={
+        <ActionPanel>
+          {groupedLight && (
+            <>
+              <ActionPanel.Section>
+                <Action
+                  icon={isOn ? Icon.LightBulbOff : Icon.LightBulb}
+                  title={isOn ? "Turn off All Lights" : "Turn on All Lights"}
+                  onAction={handleToggle}
+                />
+              </ActionPanel.Section>
+
+              {scenes.length > 0 && (
+                <ActionPanel.Section title="Scenes">
+                  <ActionPanel.Submenu title="Activate Scene" icon={Icon.Image}>
+                    {scenes
+                      .sort((a, b) => (a.metadata?.name ?? "").localeCompare(b.metadata?.name ?? ""))
+                      .map((scene) => (
+                        <Action
+                          key={scene.id}
+                          icon={Icon.Play}
+                          title={scene.metadata?.name ?? "Unknown Scene"}
+                          onAction={() => handleActivateScene(scene)}
+                        />
+                      ))}
+                  </ActionPanel.Submenu>
+                </ActionPanel.Section>
+              )}
+
+              <ActionPanel.Section>
+                <Action.Push
+                  icon={Icon.SaveDocument}
+                  title="Save Current State as Scene"
+                  shortcut={{ modifiers: ["cmd"], key: "s" }}
+                  target={<SaveSceneForm group={zone} groupType="zone" revalidate={revalidate} />}
+                />
+              </ActionPanel.Section>
+
+              <ActionPanel.Section title="Brightness">
+                <Action
+                  icon={Icon.Sun}
+                  title="Set to 100%"
+                  shortcut={{ modifiers: ["cmd"], key: "1" }}
+                  onAction={() => handleSetBrightness(100)}
+                />
+                <Action
+                  icon={Icon.Sun}
+                  title="Set to 75%"
+                  shortcut={{ modifiers: ["cmd"], key: "2" }}
+                  onAction={() => handleSetBrightness(75)}
+                />
+                <Action
+                  icon={Icon.Sun}
+                  title="Set to 50%"
+                  shortcut={{ modifiers: ["cmd"], key: "3" }}
+                  onAction={() => handleSetBrightness(50)}
+                />
+                <Action
+                  icon={Icon.Sun}
+                  title="Set to 25%"
+                  shortcut={{ modifiers: ["cmd"], key: "4" }}
+                  onAction={() => handleSetBrightness(25)}
+                />
+                <Action
+                  icon={Icon.Sun}
+                  title="Set to 10%"
+                  shortcut={{ modifiers: ["cmd"], key: "5" }}
+                  onAction={() => handleSetBrightness(10)}
+                />
+              </ActionPanel.Section>
+            </>
+          )}
+
+          <ActionPanel.Section title="Manage">
+            <Action.Push
+              icon={Icon.Pencil}
+              title="Edit Zone"
+              shortcut={{ modifiers: ["cmd"], key: "e" }}
+              target={<ZoneForm zone={zone} revalidate={revalidate} />}
+            />
+            <Action.Push
+              icon={Icon.Plus}
+              title="Create Zone"
+              shortcut={{ modifiers: ["cmd"], key: "n" }}
+              target={<ZoneForm revalidate={revalidate} />}
+            />
+            <Action
+              icon={Icon.Trash}
+              title="Delete Zone"
+              style={Action.Style.Destructive}
+              shortcut={{ modifiers: ["ctrl"], key: "x" }}
+              onAction={handleDelete}
+            />
+          </ActionPanel.Section>
+
+          <ActionPanel.Section>
+            <Action
+              icon={Icon.ArrowClockwise}
+              title="Refresh"
+              shortcut={{ modifiers: ["cmd"], key: "r" }}
+              onAction={revalidate}
+            />
+            <SwitchBridgeSubmenu bridgeProfiles={bridgeProfiles} />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+interface ZoneFormValues {
+  name: string;
+  archetype: string;
+  lightIds: string[];
+}
+
+function ZoneForm({ zone, revalidate }: { zone?: Zone; revalidate: () => Promise<void> }) {
+  const { pop } = useNavigation();
+  const { lights, rooms, isLoading } = useLightsWithRooms();
+  const [nameError, setNameError] = useState<string | undefined>();
+  const [lightsError, setLightsError] = useState<string | undefined>();
+
+  // Controlled so the current members stay selected while the lights are still loading
+  const [lightIds, setLightIds] = useState<string[]>(
+    () => zone?.children?.filter((c) => c.rtype === "light" && c.rid).map((c) => c.rid!) ?? [],
+  );
+
+  const isEditing = zone !== undefined;
+
+  // Sort lights by room then name so the picker is easy to scan
+  const sortedLights = lights
+    .map((light) => ({ light, roomName: findRoomForLight(light, rooms)?.metadata?.name ?? "Unassigned" }))
+    .sort(
+      (a, b) =>
+        a.roomName.localeCompare(b.roomName) ||
+        (a.light.metadata?.name ?? "").localeCompare(b.light.metadata?.name ?? ""),
+    );
+
+  const handleSubmit = async (values: ZoneFormValues) => {
+    const name = values.name.trim();
+    if (!name) {
+      setNameError("Name is required");
+      return;
+    }
+    if (values.lightIds.length === 0) {
+      setLightsError("Select at least one light");
+      return;
+    }
+
+    const data: ZonePut = {
+      metadata: { name, archetype: values.archetype as RoomArchetype },
+      children: values.lightIds.map((rid) => ({ rid, rtype: "light" })),
+    };
+
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: isEditing ? "Updating zone..." : "Creating zone...",
+    });
+
+    try {
+      if (isEditing) {
+        await updateZone(zone.id!, data);
+      } else {
+        await createZone(data);
+      }
+      toast.style = Toast.Style.Success;
+      toast.title = isEditing ? `${name} updated` : `${name} created`;
+      await revalidate();
+      pop();
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = isEditing ? "Failed to update zone" : "Failed to create zone";
+      toast.message = error instanceof Error ? error.message : "Unknown error";
+    }
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={isEditing ? `Edit ${zone.metadata?.name ?? "Zone"}` : "Create Zone"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={isEditing ? "Save Zone" : "Create Zone"}
+            icon={Icon.Check}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="e.g., Downstairs"
+        defaultValue={zone?.metadata?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      <Form.Dropdown id="archetype" title="Icon" defaultValue={zone?.metadata?.archetype ?? RoomArchetype.other}>
+        {Object.values(RoomArchetype).map((archetype) => (
+          <Form.Dropdown.Item
+            key={archetype}
+            value={archetype}
+            title={formatArchetype(archetype)}
+            icon={getArchetypeIcon(archetype, Icon.Layers)}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.TagPicker
+        id="lightIds"
+        title="Lights"
+        value={lightIds}
+        error={lightsError}
+        onChange={(value) => {
+          setLightIds(value);
+          setLightsError(undefined);
+        }}
+      >
+        {sortedLights.map(({ light, roomName }) => (
+          <Form.TagPicker.Item
+            key={light.id}
+            value={light.id!}
+            title={`${light.metadata?.name ?? "Unknown Light"} (${roomName})`}
+            icon={Icon.LightBulb}
+          />
+        ))}
+      </Form.TagPicker>
+    </Form>
+  );
+}